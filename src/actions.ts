@@ -0,0 +1,22 @@
+/** Action strings handed to `authorize`, RBAC and the audit log for each mutation route. */
+export const MUTATION_ACTIONS = [
+  'queue:pause', 'queue:resume', 'queue:obliterate',
+  'queue:drain', 'queue:retryAll', 'queue:clean', 'queue:import',
+  'job:remove', 'job:retry', 'job:promote',
+  'job:changePriority', 'job:changeDelay',
+  'job:add', 'job:updateData',
+  'dlq:requeue', 'dlq:purge',
+  'scheduler:upsert', 'scheduler:remove',
+  'scheduler:pause', 'scheduler:resume', 'scheduler:run',
+  'search:save', 'search:remove',
+] as const;
+export type ActionString = (typeof MUTATION_ACTIONS)[number];
+
+/** Read actions, only enforced when `rbac` is configured. */
+export const READ_ACTIONS = ['queue:read', 'job:read', 'job:readData', 'usage:read', 'audit:read'] as const;
+export type ReadAction = (typeof READ_ACTIONS)[number];
+
+/** Lets a role see job content before `redact` rules apply. Not a route guard, so not a read action. */
+export const UNREDACTED_ACTION = 'job:readUnredacted' as const;
+
+export type AccessAction = ActionString | ReadAction | typeof UNREDACTED_ACTION;
@@ -0,0 +1,59 @@
+import type { Router, Request, Response } from 'express';
+import type { Queue } from 'glide-mq';
+import { createDashboardCore } from '../core';
+import type { DashboardHandle, DashboardOptions, DashboardRoute } from '../core';
+import { MAX_BODY_BYTES } from '../http';
+import { normalizeQuery, writeNodeResponse } from './node';
+
+/** Extract a single string param from Express req.params (handles Express 4 and 5 types). */
+function param(req: Request, key: string): string {
+  const val = req.params[key];
+  return Array.isArray(val) ? val[0] : val;
+}
+
+/**
+ * Create an Express Router that serves a dashboard UI and REST API
+ * for monitoring and managing glide-mq queues. The router also carries
+ * `addQueue`/`removeQueue` for queues created after mounting, and `close()`
+ * to stop its background work on shutdown.
+ */
+export function createDashboard(
+  queues: Queue[],
+  opts?: DashboardOptions<Request>,
+): Router & DashboardHandle {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const express = require('express') as typeof import('express');
+  const router = express.Router();
+  const core = createDashboardCore(queues, opts);
+
+  // Body parsers for mutation endpoints, with the limits every adapter applies.
+  const defaultParser = express.json({ limit: MAX_BODY_BYTES });
+
+  for (const route of core.routes) {
+    const parser = route.bodyLimit ? express.json({ limit: route.bodyLimit }) : defaultParser;
+    const handler = async (req: Request, res: Response) => {
+      const response = await route.handler({
+        method: req.method,
+        params: paramsFor(route, req),
+        query: normalizeQuery(req.query as Record<string, unknown>),
+        body: req.body,
+        header: (name) => req.get(name),
+        raw: req,
+      });
+      writeNodeResponse(res, response);
+    };
+    if (route.method === 'GET') router.get(route.path, handler);
+    else if (route.method === 'POST') router.post(route.path, parser, handler);
+    else router.delete(route.path, parser, handler);
+  }
+
+  return Object.assign(router, { addQueue: core.addQueue, removeQueue: core.removeQueue, close: core.close });
+}
+
+function paramsFor(route: DashboardRoute, req: Request): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const segment of route.path.split('/')) {
+    if (segment.startsWith(':')) params[segment.slice(1)] = param(req, segment.slice(1));
+  }
+  return params;
+}
@@ -0,0 +1,57 @@
+import type { FastifyPluginAsync, FastifyRequest } from 'fastify';
+import type { Queue } from 'glide-mq';
+import { createDashboardCore } from '../core';
+import type { DashboardHandle, DashboardOptions } from '../core';
+import { MAX_BODY_BYTES } from '../http';
+import { normalizeQuery, writeNodeResponse } from './node';
+
+/**
+ * Create a Fastify plugin that serves the dashboard UI and REST API.
+ * Register it under a prefix: `app.register(createFastifyDashboard(queues), { prefix: '/dashboard' })`.
+ * The plugin also carries `addQueue`/`removeQueue` for queues created after registering.
+ * Its background work stops when the Fastify instance closes, or on `close()`.
+ */
+export function createFastifyDashboard(
+  queues: Queue[],
+  opts?: DashboardOptions<FastifyRequest>,
+): FastifyPluginAsync & DashboardHandle {
+  const core = createDashboardCore(queues, opts);
+
+  const plugin: FastifyPluginAsync = async (fastify) => {
+    fastify.addHook('onClose', async () => {
+      await core.close();
+    });
+    for (const route of core.routes) {
+      fastify.route({
+        method: route.method,
+        url: route.path,
+        // Fastify's own default is 1 MiB; apply the limits the other adapters do.
+        bodyLimit: route.bodyLimit ?? MAX_BODY_BYTES,
+        handler: async (request, reply) => {
+          const response = await route.handler({
+            method: request.method,
+            params: (request.params ?? {}) as Record<string, string>,
+            query: normalizeQuery(request.query as Record<string, unknown>),
+            body: request.body,
+            header: (name) => {
+              const value = request.headers[name.toLowerCase()];
+              return Array.isArray(value) ? value[0] : value;
+            },
+            raw: request,
+          });
+          if (response.type === 'stream') {
+            reply.hijack();
+            writeNodeResponse(reply.raw, response);
+            return;
+          }
+          if (response.type === 'json') {
+            return reply.code(response.status).headers(response.headers ?? {}).send(response.body);
+          }
+          return reply.code(response.status).headers(response.headers).send(response.body);
+        },
+      });
+    }
+  };
+
+  return Object.assign(plugin, { addQueue: core.addQueue, removeQueue: core.removeQueue, close: core.close });
+}
@@ -0,0 +1,101 @@
+import type { Context, Hono } from 'hono';
+import type { Queue } from 'glide-mq';
+import { createDashboardCore } from '../core';
+import type { DashboardHandle, DashboardOptions } from '../core';
+import { MAX_BODY_BYTES } from '../http';
+import type { DashboardResponse, DashboardStreamSink } from '../http';
+
+/**
+ * Create a Hono app that serves the dashboard UI and REST API.
+ * Mount it with `app.route('/dashboard', createHonoDashboard(queues))`. The app also carries
+ * `addQueue`/`removeQueue` for queues created after mounting, and `close()` to stop
+ * its background work on shutdown.
+ */
+export function createHonoDashboard(
+  queues: Queue[],
+  opts?: DashboardOptions<Context>,
+): Hono & DashboardHandle {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const { Hono: HonoApp } = require('hono') as typeof import('hono');
+  const app = new HonoApp();
+  const core = createDashboardCore(queues, opts);
+
+  for (const route of core.routes) {
+    const limit = route.bodyLimit ?? MAX_BODY_BYTES;
+    app.on(route.method, route.path, async (c) => {
+      let body: unknown;
+      if (route.method !== 'GET' && (c.req.header('content-type') ?? '').includes('json')) {
+        if (Number(c.req.header('content-length') ?? 0) > limit) {
+          return c.json({ error: 'Request body too large' }, 413);
+        }
+        const text = await c.req.text();
+        if (Buffer.byteLength(text) > limit) {
+          return c.json({ error: 'Request body too large' }, 413);
+        }
+        if (text) {
+          try {
+            body = JSON.parse(text);
+          } catch {
+            return c.json({ error: 'Invalid JSON body' }, 400);
+          }
+        }
+      }
+      const response = await route.handler({
+        method: c.req.method,
+        params: c.req.param() as Record<string, string>,
+        query: c.req.query(),
+        body,
+        header: (name) => c.req.header(name),
+        raw: c,
+      });
+      return toWebResponse(response, c.req.raw.signal);
+    });
+  }
+
+  return Object.assign(app, { addQueue: core.addQueue, removeQueue: core.removeQueue, close: core.close });
+}
+
+function toWebResponse(response: DashboardResponse, signal: AbortSignal): Response {
+  if (response.type === 'json') {
+    return new Response(JSON.stringify(response.body), {
+      status: response.status,
+      headers: { ...response.headers, 'Content-Type': 'application/json; charset=utf-8' },
+    });
+  }
+  if (response.type === 'text') {
+    return new Response(response.body, { status: response.status, headers: response.headers });
+  }
+
+  const encoder = new TextEncoder();
+  const listeners: (() => void)[] = [];
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    for (const listener of listeners) listener();
+  };
+  signal.addEventListener('abort', close);
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const sink: DashboardStreamSink = {
+        write(chunk) {
+          if (!closed) controller.enqueue(encoder.encode(chunk));
+        },
+        end() {
+          if (!closed) controller.close();
+          close();
+        },
+        onClose(listener) {
+          listeners.push(listener);
+        },
+        get closed() {
+          return closed;
+        },
+      };
+      Promise.resolve(response.start(sink)).catch(() => sink.end());
+    },
+    cancel: close,
+  });
+  return new Response(stream, { status: response.status, headers: response.headers });
+}
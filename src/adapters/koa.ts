@@ -0,0 +1,60 @@
+import type { Context, Middleware } from 'koa';
+import type { Queue } from 'glide-mq';
+import { createDashboardCore } from '../core';
+import type { DashboardHandle, DashboardOptions } from '../core';
+import { BodyTooLargeError, normalizeQuery, readJsonBody, writeNodeResponse } from './node';
+
+export interface KoaDashboardOptions extends DashboardOptions<Context> {
+  /** Path the dashboard is served under, e.g. `/dashboard`. Omit when mounting with koa-mount. */
+  prefix?: string;
+}
+
+/**
+ * Create a Koa middleware that serves the dashboard UI and REST API.
+ * Requests outside the dashboard routes fall through to `next()`. The middleware also
+ * carries `addQueue`/`removeQueue` for queues created after mounting, and `close()` to stop
+ * its background work on shutdown.
+ */
+export function createKoaDashboard(
+  queues: Queue[],
+  opts?: KoaDashboardOptions,
+): Middleware & DashboardHandle {
+  const core = createDashboardCore(queues, opts);
+  const prefix = (opts?.prefix ?? '').replace(/\/$/, '');
+
+  const middleware: Middleware = async (ctx, next) => {
+    let path = ctx.path;
+    if (prefix) {
+      if (path !== prefix && !path.startsWith(prefix + '/')) return next();
+      path = path.slice(prefix.length) || '/';
+    }
+    const matched = core.match(ctx.method, path);
+    if (!matched) return next();
+
+    // Honour an upstream body parser (koa-bodyparser, @koa/bodyparser) when present.
+    let body = (ctx.request as { body?: unknown }).body;
+    if (body === undefined && ctx.method !== 'GET') {
+      try {
+        body = await readJsonBody(ctx.req, matched.route.bodyLimit);
+      } catch (err) {
+        const tooLarge = err instanceof BodyTooLargeError;
+        ctx.status = tooLarge ? err.status : 400;
+        ctx.body = { error: tooLarge ? 'Request body too large' : 'Invalid JSON body' };
+        return;
+      }
+    }
+
+    const response = await matched.route.handler({
+      method: ctx.method,
+      params: matched.params,
+      query: normalizeQuery(ctx.query as Record<string, unknown>),
+      body,
+      header: (name) => ctx.get(name) || undefined,
+      raw: ctx,
+    });
+    ctx.respond = false;
+    writeNodeResponse(ctx.res, response);
+  };
+
+  return Object.assign(middleware, { addQueue: core.addQueue, removeQueue: core.removeQueue, close: core.close });
+}
@@ -0,0 +1,84 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { MAX_BODY_BYTES } from '../http';
+import type { DashboardResponse, DashboardStreamSink } from '../http';
+
+/** Collapse a framework query object (which may hold arrays or nested objects) to single strings. */
+export function normalizeQuery(query: Record<string, unknown> | undefined): Record<string, string | undefined> {
+  const result: Record<string, string | undefined> = {};
+  if (!query) return result;
+  for (const [key, value] of Object.entries(query)) {
+    if (typeof value === 'string') result[key] = value;
+    else if (Array.isArray(value) && typeof value[0] === 'string') result[key] = value[0];
+  }
+  return result;
+}
+
+/** Thrown by readJsonBody for a body over its limit; adapters answer it with a 413. */
+export class BodyTooLargeError extends Error {
+  readonly status = 413;
+}
+
+/**
+ * Read and JSON-parse a raw Node request body. Resolves undefined for empty or non-JSON bodies.
+ * Stops reading and throws BodyTooLargeError past `limit` bytes, the cap the other adapters' parsers apply.
+ */
+export async function readJsonBody(req: IncomingMessage, limit = MAX_BODY_BYTES): Promise<unknown> {
+  const contentType = req.headers['content-type'] ?? '';
+  if (!contentType.includes('json')) return undefined;
+  if (Number(req.headers['content-length'] ?? 0) > limit) throw new BodyTooLargeError(`Request body exceeds ${limit} bytes`);
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > limit) throw new BodyTooLargeError(`Request body exceeds ${limit} bytes`);
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) return undefined;
+  return JSON.parse(text);
+}
+
+/** Write a DashboardResponse to a raw Node ServerResponse (Express, Fastify and Koa all expose one). */
+export function writeNodeResponse(res: ServerResponse, response: DashboardResponse): void {
+  if (response.type === 'json') {
+    res.statusCode = response.status;
+    for (const [name, value] of Object.entries(response.headers ?? {})) res.setHeader(name, value);
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify(response.body));
+    return;
+  }
+  if (response.type === 'text') {
+    res.statusCode = response.status;
+    for (const [name, value] of Object.entries(response.headers)) res.setHeader(name, value);
+    res.end(response.body);
+    return;
+  }
+
+  res.writeHead(response.status, response.headers);
+  const listeners: (() => void)[] = [];
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    for (const listener of listeners) listener();
+  };
+  res.on('close', close);
+  res.on('error', close);
+
+  const sink: DashboardStreamSink = {
+    write(chunk) {
+      if (!closed) res.write(chunk);
+    },
+    end() {
+      if (!closed) res.end();
+      close();
+    },
+    onClose(listener) {
+      listeners.push(listener);
+    },
+    get closed() {
+      return closed;
+    },
+  };
+  Promise.resolve(response.start(sink)).catch(() => sink.end());
+}
@@ -0,0 +1,300 @@
+import type { Queue } from 'glide-mq';
+import type { RouteContext } from './core';
+import type { EventHub } from './events';
+import { json, VALID_STATES } from './http';
+import type { JobState } from './http';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+interface AlertRuleBase {
+  /** Unique rule name, used as the alert id together with the queue. */
+  name: string;
+  /** Queues the rule watches. Defaults to every mounted queue. */
+  queues?: string[];
+  severity?: AlertSeverity;
+  /** Minimum time between two firing notifications for the same rule and queue. Default 5 minutes. */
+  cooldownMs?: number;
+}
+
+/** Fires while `getJobCounts()[state]` is at or above `threshold`, e.g. a growing waiting backlog. */
+export interface JobCountRule extends AlertRuleBase {
+  type: 'jobCount';
+  state: JobState;
+  threshold: number;
+}
+
+/** Fires while a queue has fewer than `min` workers (default 1). */
+export interface WorkersRule extends AlertRuleBase {
+  type: 'workers';
+  min?: number;
+}
+
+/** Fires while at least `threshold` `event`s arrived within `windowMs`, e.g. failure spikes or `budget-exceeded`. */
+export interface EventRateRule extends AlertRuleBase {
+  type: 'eventRate';
+  event: string;
+  threshold: number;
+  /** Default 5 minutes. */
+  windowMs?: number;
+}
+
+export type AlertRule = JobCountRule | WorkersRule | EventRateRule;
+
+export interface AlertNotification {
+  status: 'firing' | 'resolved';
+  rule: string;
+  type: AlertRule['type'];
+  severity: AlertSeverity;
+  queue: string;
+  /** Cluster of the queue, when the dashboard serves named clusters. */
+  cluster?: string;
+  value: number;
+  threshold: number;
+  message: string;
+  /** When the alert started firing. */
+  since: number;
+  timestamp: number;
+}
+
+/** Delivery target for alert notifications. Failures are swallowed. */
+export interface AlertNotifier {
+  notify(notification: AlertNotification): void | Promise<void>;
+}
+
+export interface AlertOptions {
+  rules: AlertRule[];
+  notifiers?: AlertNotifier | AlertNotifier[];
+  /** How often `jobCount` and `workers` rules poll the queues. Default 30 seconds. */
+  intervalMs?: number;
+}
+
+export interface AlertState {
+  rule: string;
+  type: AlertRule['type'];
+  severity: AlertSeverity;
+  queue: string;
+  status: 'firing' | 'ok';
+  value: number;
+  threshold: number;
+  message: string;
+  /** When the current firing period started; null while ok. */
+  since: number | null;
+  lastEvaluated: number;
+}
+
+const DEFAULT_COOLDOWN_MS = 5 * 60 * 1000;
+const DEFAULT_WINDOW_MS = 5 * 60 * 1000;
+const DEFAULT_INTERVAL_MS = 30 * 1000;
+const ALERT_HISTORY_SIZE = 200;
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 10 * 1000;
+const RULE_TYPES: readonly string[] = ['jobCount', 'workers', 'eventRate'] satisfies AlertRule['type'][];
+
+/** POST each notification as JSON to `url`, giving up after `timeoutMs` (default 10 seconds). */
+export function webhookAlertNotifier(
+  url: string,
+  opts?: { headers?: Record<string, string>; timeoutMs?: number },
+): AlertNotifier {
+  return {
+    async notify(notification) {
+      await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...opts?.headers },
+        body: JSON.stringify(notification),
+        signal: AbortSignal.timeout(opts?.timeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS),
+      });
+    },
+  };
+}
+
+/** Hand each notification to `fn`. */
+export function callbackAlertNotifier(fn: (notification: AlertNotification) => void | Promise<void>): AlertNotifier {
+  return { notify: fn };
+}
+
+export interface AlertEngine {
+  /** Poll the queues and re-check every rule. Runs on `intervalMs` on its own. */
+  evaluate(): Promise<void>;
+  list(): AlertState[];
+  history(): AlertNotification[];
+  /** Drop the state of a queue that was unmounted. Past notifications stay in the history. */
+  forget(queue: string): void;
+  stop(): void;
+}
+
+interface Tracked {
+  state: AlertState;
+  lastNotified: number;
+  /** Whether the firing transition was delivered, so its resolution is too. */
+  notified: boolean;
+}
+
+function describe(rule: AlertRule, queue: string, value: number): string {
+  switch (rule.type) {
+    case 'jobCount': return `${queue}: ${value} ${rule.state} jobs (threshold ${rule.threshold})`;
+    case 'workers': return `${queue}: ${value} workers (minimum ${rule.min ?? 1})`;
+    case 'eventRate': return `${queue}: ${value} ${rule.event} events in ${Math.round((rule.windowMs ?? DEFAULT_WINDOW_MS) / 1000)}s (threshold ${rule.threshold})`;
+  }
+}
+
+/** Reject rules the engine can't evaluate, so a typo fails at startup instead of producing empty notifications. */
+function validateRule(rule: AlertRule): void {
+  if (!RULE_TYPES.includes(rule.type)) {
+    throw new TypeError(`Alert rule "${rule.name}" has unknown type "${rule.type}"; use ${RULE_TYPES.join(', ')}`);
+  }
+  if (rule.type === 'jobCount' && !(VALID_STATES as readonly string[]).includes(rule.state)) {
+    throw new TypeError(`Alert rule "${rule.name}" watches unknown state "${rule.state}"; use ${VALID_STATES.join(', ')}`);
+  }
+}
+
+export function createAlertEngine(queues: Queue[], events: EventHub, opts: AlertOptions, cluster?: string): AlertEngine {
+  opts.rules.forEach(validateRule);
+  const notifiers = opts.notifiers == null ? [] : Array.isArray(opts.notifiers) ? opts.notifiers : [opts.notifiers];
+  const tracked = new Map<string, Tracked>();
+  const recent: AlertNotification[] = [];
+  const eventTimes = new Map<string, number[]>();
+  // Read the names each time: queues can be mounted and unmounted at runtime.
+  const watched = (rule: AlertRule) => rule.queues ?? queues.map((q) => q.name);
+  const keyOf = (rule: AlertRule, queue: string) => `${rule.name}\u0000${queue}`;
+
+  // Deliveries are not awaited: a slow notifier must not hold up the other rules or queues.
+  function notify(notification: AlertNotification) {
+    recent.push(notification);
+    if (recent.length > ALERT_HISTORY_SIZE) recent.shift();
+    for (const n of notifiers) {
+      void (async () => {
+        try { await n.notify(notification); } catch { /* ignore */ }
+      })();
+    }
+  }
+
+  async function update(rule: AlertRule, queue: string, value: number) {
+    const now = Date.now();
+    const threshold = rule.type === 'workers' ? rule.min ?? 1 : rule.threshold;
+    const firing = rule.type === 'workers' ? value < threshold : value >= threshold;
+    const key = keyOf(rule, queue);
+    let entry = tracked.get(key);
+    if (!entry) {
+      entry = {
+        state: {
+          rule: rule.name, type: rule.type, severity: rule.severity ?? 'warning', queue,
+          status: 'ok', value, threshold, message: '', since: null, lastEvaluated: now,
+        },
+        lastNotified: -Infinity,
+        notified: false,
+      };
+      tracked.set(key, entry);
+    }
+    const { state } = entry;
+    const wasFiring = state.status === 'firing';
+    Object.assign(state, { value, threshold, message: describe(rule, queue, value), lastEvaluated: now });
+    const base = { rule: rule.name, type: rule.type, severity: state.severity, queue, ...(cluster ? { cluster } : {}), value, threshold, message: state.message, timestamp: now };
+
+    if (!firing) {
+      if (!wasFiring) return;
+      const since = state.since ?? now;
+      state.status = 'ok';
+      state.since = null;
+      if (entry.notified) {
+        entry.notified = false;
+        notify({ ...base, status: 'resolved', since });
+      }
+      return;
+    }
+    if (!wasFiring) {
+      state.status = 'firing';
+      state.since = now;
+    }
+    // Checked on every evaluation, so an alert that started inside the cooldown is sent once it ends.
+    if (entry.notified || now - entry.lastNotified < (rule.cooldownMs ?? DEFAULT_COOLDOWN_MS)) return;
+    entry.notified = true;
+    entry.lastNotified = now;
+    notify({ ...base, status: 'firing', since: state.since ?? now });
+  }
+
+  function eventCount(rule: EventRateRule, queue: string, now: number): number {
+    const key = keyOf(rule, queue);
+    const cutoff = now - (rule.windowMs ?? DEFAULT_WINDOW_MS);
+    const times = (eventTimes.get(key) ?? []).filter((t) => t > cutoff);
+    eventTimes.set(key, times);
+    return times.length;
+  }
+
+  // Event rules react as soon as a matching event arrives; polling only resolves them.
+  const unsubscribe = events.subscribe((event) => {
+    for (const rule of opts.rules) {
+      if (rule.type !== 'eventRate' || rule.event !== event.event || !watched(rule).includes(event.queue)) continue;
+      const key = keyOf(rule, event.queue);
+      const now = Date.now();
+      eventTimes.set(key, [...(eventTimes.get(key) ?? []), now]);
+      void update(rule, event.queue, eventCount(rule, event.queue, now));
+    }
+  });
+
+  async function evaluate() {
+    const counts = new Map<string, ReturnType<Queue['getJobCounts']>>();
+    const workers = new Map<string, Promise<number>>();
+    const queueByName = new Map(queues.map((q) => [q.name, q]));
+    for (const rule of opts.rules) {
+      for (const name of watched(rule)) {
+        const queue = queueByName.get(name);
+        if (!queue) continue;
+        try {
+          if (rule.type === 'jobCount') {
+            if (!counts.has(name)) counts.set(name, queue.getJobCounts());
+            await update(rule, name, Number((await counts.get(name)!)[rule.state]) || 0);
+          } else if (rule.type === 'workers') {
+            if (!workers.has(name)) workers.set(name, queue.getWorkers().then((list: unknown[]) => list.length));
+            await update(rule, name, await workers.get(name)!);
+          } else {
+            await update(rule, name, eventCount(rule, name, Date.now()));
+          }
+        } catch {
+          // Keep the previous state when a queue can't be read.
+        }
+      }
+    }
+  }
+
+  const timer = setInterval(() => { void evaluate(); }, opts.intervalMs ?? DEFAULT_INTERVAL_MS);
+  timer.unref?.();
+  void evaluate();
+
+  return {
+    evaluate,
+    list() {
+      return [...tracked.values()]
+        .map((t) => ({ ...t.state }))
+        .sort((a, b) => (a.status === b.status ? 0 : a.status === 'firing' ? -1 : 1));
+    },
+    history() {
+      return [...recent].reverse();
+    },
+    forget(queue) {
+      for (const map of [tracked, eventTimes]) {
+        for (const key of map.keys()) {
+          if (key.endsWith(`\u0000${queue}`)) map.delete(key);
+        }
+      }
+    },
+    stop() {
+      clearInterval(timer);
+      unsubscribe();
+    },
+  };
+}
+
+export function alertRoutes(ctx: RouteContext, alerts: AlertEngine | null): void {
+  // --- Current alert states and recent notifications ---
+  ctx.read('/api/alerts', 'queue:read', async (req) => {
+    if (!alerts) {
+      return json(404, { error: 'Alerting is not enabled' });
+    }
+    const caller = await ctx.access(req);
+    const list = alerts.list().filter((a) => caller.can('queue:read', a.queue));
+    return json(200, {
+      firing: list.filter((a) => a.status === 'firing').length,
+      alerts: list,
+      history: alerts.history().filter((n) => caller.can('queue:read', n.queue)),
+    });
+  });
+}
@@ -0,0 +1,184 @@
+import { appendFile, readFile } from 'fs/promises';
+import type { ActionString } from './core';
+
+export type AuditOutcome = 'success' | 'denied' | 'error';
+
+export interface AuditEntry {
+  timestamp: number;
+  /** Resolved by `audit.actor(req)`; null when no resolver is set or it returned nothing. */
+  actor: string | null;
+  action: ActionString;
+  queue: string | null;
+  jobId: string | null;
+  /** Request body after redaction; a summary when larger than `MAX_AUDIT_BODY_BYTES`. */
+  body: unknown;
+  outcome: AuditOutcome;
+  /** HTTP status the dashboard answered with. */
+  status: number;
+  error?: string;
+  /** Cluster the mutation ran against, when the dashboard serves named clusters. */
+  cluster?: string;
+}
+
+export interface AuditFilter {
+  cluster?: string;
+  actor?: string;
+  action?: string;
+  queue?: string;
+  jobId?: string;
+  outcome?: AuditOutcome;
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
+/**
+ * Destination for audit entries. `query` is optional: sinks that only forward
+ * entries elsewhere (a callback, a log shipper) cannot serve `GET /api/audit`.
+ */
+export interface AuditSink {
+  record(entry: AuditEntry): void | Promise<void>;
+  query?(filter: AuditFilter): AuditEntry[] | Promise<AuditEntry[]>;
+}
+
+export interface AuditOptions<TReq = any> {
+  /** One or more sinks. Defaults to an in-memory ring buffer of 1000 entries. */
+  sink?: AuditSink | AuditSink[];
+  /** Resolve the acting user from the framework-native request. */
+  actor?: (req: TReq) => string | null | undefined | Promise<string | null | undefined>;
+}
+
+const DEFAULT_AUDIT_LIMIT = 100;
+const MAX_AUDIT_LIMIT = 1000;
+/** Request bodies whose JSON is larger than this are recorded as a summary. */
+export const MAX_AUDIT_BODY_BYTES = 4096;
+/** Fields of a summarized body up to this size are kept as they are. */
+const MAX_AUDIT_FIELD_BYTES = 256;
+
+const jsonBytes = (value: unknown) => Buffer.byteLength(JSON.stringify(value) ?? '');
+
+/** Type and size of a value left out of an audit entry. Strings report their non-blank lines, i.e. records of an import. */
+export function describeAuditValue(value: unknown): Record<string, unknown> {
+  if (typeof value === 'string') {
+    return { type: 'string', bytes: Buffer.byteLength(value), lines: value.split('\n').filter((l) => l.trim()).length };
+  }
+  if (Array.isArray(value)) return { type: 'array', length: value.length, bytes: jsonBytes(value) };
+  if (value && typeof value === 'object') return { type: 'object', keys: Object.keys(value).length, bytes: jsonBytes(value) };
+  return { type: typeof value };
+}
+
+/**
+ * The body as recorded: unchanged up to `MAX_AUDIT_BODY_BYTES`, otherwise
+ * `{ summarized: true, bytes, fields }` keeping small fields and describing the rest.
+ */
+export function summarizeAuditBody(body: unknown): unknown {
+  if (body == null) return null;
+  const bytes = jsonBytes(body);
+  if (bytes <= MAX_AUDIT_BODY_BYTES) return body;
+  if (typeof body !== 'object' || Array.isArray(body)) return { summarized: true, ...describeAuditValue(body) };
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(body)) {
+    fields[key] = jsonBytes(value) <= MAX_AUDIT_FIELD_BYTES ? value : describeAuditValue(value);
+  }
+  return { summarized: true, bytes, fields };
+}
+
+export function matchesAuditFilter(entry: AuditEntry, filter: AuditFilter): boolean {
+  if (filter.cluster && entry.cluster !== filter.cluster) return false;
+  if (filter.actor && entry.actor !== filter.actor) return false;
+  if (filter.action && entry.action !== filter.action) return false;
+  if (filter.queue && entry.queue !== filter.queue) return false;
+  if (filter.jobId && entry.jobId !== filter.jobId) return false;
+  if (filter.outcome && entry.outcome !== filter.outcome) return false;
+  if (filter.since != null && entry.timestamp < filter.since) return false;
+  if (filter.until != null && entry.timestamp > filter.until) return false;
+  return true;
+}
+
+/** Newest-first slice of `entries` (oldest-first input) matching `filter`. */
+function applyFilter(entries: AuditEntry[], filter: AuditFilter): AuditEntry[] {
+  const limit = Math.min(filter.limit ?? DEFAULT_AUDIT_LIMIT, MAX_AUDIT_LIMIT);
+  const result: AuditEntry[] = [];
+  for (let i = entries.length - 1; i >= 0 && result.length < limit; i--) {
+    if (matchesAuditFilter(entries[i], filter)) result.push(entries[i]);
+  }
+  return result;
+}
+
+/** Keep the most recent `capacity` entries in memory. Lost on restart. */
+export function memoryAuditSink(capacity = 1000): AuditSink {
+  const entries: AuditEntry[] = [];
+  return {
+    record(entry) {
+      entries.push(entry);
+      if (entries.length > capacity) entries.splice(0, entries.length - capacity);
+    },
+    query(filter) {
+      return applyFilter(entries, filter);
+    },
+  };
+}
+
+/** Append entries as JSON lines to `path`. Queries re-read the file. */
+export function fileAuditSink(path: string): AuditSink {
+  let pending: Promise<void> = Promise.resolve();
+  return {
+    record(entry) {
+      // Serialize appends so lines never interleave.
+      pending = pending.then(() => appendFile(path, JSON.stringify(entry) + '\n', 'utf8')).catch(() => {});
+      return pending;
+    },
+    async query(filter) {
+      await pending;
+      let text: string;
+      try {
+        text = await readFile(path, 'utf8');
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw err;
+      }
+      const entries: AuditEntry[] = [];
+      for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        try { entries.push(JSON.parse(line)); } catch { /* skip torn lines */ }
+      }
+      return applyFilter(entries, filter);
+    },
+  };
+}
+
+/** Forward every entry to `fn`. Not queryable. */
+export function callbackAuditSink(fn: (entry: AuditEntry) => void | Promise<void>): AuditSink {
+  return { record: fn };
+}
+
+export interface AuditLog<TReq = any> {
+  record(req: TReq, entry: Omit<AuditEntry, 'actor' | 'timestamp'>): Promise<void>;
+  /** Query the first sink that supports it. Returns null when none do. */
+  query(filter: AuditFilter): Promise<AuditEntry[] | null>;
+}
+
+export function createAuditLog<TReq = any>(opts: AuditOptions<TReq>): AuditLog<TReq> {
+  const sinks = opts.sink == null
+    ? [memoryAuditSink()]
+    : Array.isArray(opts.sink) ? opts.sink : [opts.sink];
+  const queryable = sinks.find((s) => typeof s.query === 'function');
+
+  return {
+    async record(req, partial) {
+      let actor: string | null = null;
+      if (opts.actor) {
+        try { actor = (await opts.actor(req)) ?? null; } catch { actor = null; }
+      }
+      const entry: AuditEntry = { timestamp: Date.now(), actor, ...partial };
+      // A failing sink must never fail the operator's request.
+      await Promise.all(sinks.map(async (sink) => {
+        try { await sink.record(entry); } catch { /* ignore */ }
+      }));
+    },
+    async query(filter) {
+      if (!queryable) return null;
+      return queryable.query!(filter);
+    },
+  };
+}
@@ -0,0 +1,149 @@
+import type { Job, Queue } from 'glide-mq';
+import type { RouteContext } from './core';
+import type { EventHub } from './events';
+import { MAX_PAGE_SIZE, VALID_STATES, json, safeError } from './http';
+
+/** Recent jobs read per queue and state when looking for flows with a budget. */
+export const MAX_BUDGET_SCAN = 1000;
+/** Flows whose budget is looked up per request. */
+export const MAX_BUDGET_FLOWS = 200;
+const DEFAULT_WARN_AT = 0.8;
+
+/** One capped category of a flow budget. `percent` is a fraction: 1 means the cap is reached. */
+export interface BudgetLimit {
+  category: string;
+  used: number;
+  cap: number;
+  remaining: number;
+  percent: number;
+}
+
+export interface FlowBudgetSummary {
+  queue: string;
+  flowId: string;
+  budgetKey: string | null;
+  limits: BudgetLimit[];
+  /** The highest `percent` across the limits. */
+  percentUsed: number;
+  status: 'ok' | 'warning' | 'exceeded';
+  onExceeded: string | null;
+  /** Buffered `budget-exceeded` events for jobs of this flow, oldest first. */
+  exceededEvents: { id: string; queue: string; jobId: string | null }[];
+  budget: Record<string, unknown>;
+}
+
+interface Candidate {
+  queue: string;
+  flowId: string;
+  budgetKey: string | null;
+  /** Ids of the flow's jobs seen in the scan, to match events against. */
+  jobIds: Set<string>;
+}
+
+/**
+ * Caps and spend of a budget as returned by `getFlowBudget`. A numeric `maxX` is checked against
+ * `usedX` (`maxTotalTokens` also against `usedTokens`); an object `maxX` holds caps per category
+ * and is checked against the `usedX` object.
+ */
+export function budgetLimits(budget: Record<string, any>): BudgetLimit[] {
+  const limits: BudgetLimit[] = [];
+  const add = (category: string, used: unknown, cap: unknown) => {
+    if (typeof cap !== 'number' || !(cap > 0)) return;
+    const spent = Number(used) || 0;
+    limits.push({ category, used: spent, cap, remaining: Math.max(cap - spent, 0), percent: spent / cap });
+  };
+  for (const [key, cap] of Object.entries(budget)) {
+    const match = /^max([A-Z]\w*)$/.exec(key);
+    if (!match) continue;
+    const name = match[1];
+    const label = name[0].toLowerCase() + name.slice(1);
+    const used = budget[`used${name}`] ?? budget[`used${name.replace(/^Total/, '')}`];
+    if (cap && typeof cap === 'object') {
+      for (const [category, value] of Object.entries(cap)) add(`${label}.${category}`, used?.[category], value);
+    } else {
+      add(label, used, cap);
+    }
+  }
+  return limits;
+}
+
+async function scanRecent(queue: Queue, visit: (job: Job) => void): Promise<void> {
+  for (const state of VALID_STATES) {
+    for (let start = 0; start < MAX_BUDGET_SCAN; start += MAX_PAGE_SIZE) {
+      const page = await queue.getJobs(state, start, start + MAX_PAGE_SIZE - 1, { excludeData: true });
+      page.slice(0, MAX_PAGE_SIZE).forEach(visit);
+      if (page.length < MAX_PAGE_SIZE) break;
+    }
+  }
+}
+
+export function budgetRoutes(ctx: RouteContext, hub: EventHub): void {
+  const { queues, queueMap } = ctx;
+
+  // --- Flows with a budget, found through the parents and budget keys of recent jobs ---
+  ctx.read('/api/budgets', 'usage:read', async (req) => {
+    let warnAt = DEFAULT_WARN_AT;
+    if (req.query.warnAt != null && req.query.warnAt !== '') {
+      warnAt = Number(req.query.warnAt);
+      if (!(warnAt > 0 && warnAt <= 1)) {
+        return json(400, { error: 'warnAt must be a number above 0 and at most 1' });
+      }
+    }
+    const caller = await ctx.access(req);
+    const readable = queues.filter((q) => caller.can('usage:read', q.name));
+
+    const candidates = new Map<string, Candidate>();
+    const note = (queue: string, flowId: string, jobId: string, budgetKey: unknown) => {
+      if (!queueMap.has(queue) || !caller.can('usage:read', queue)) return;
+      const key = `${queue}\u0000${flowId}`;
+      let candidate = candidates.get(key);
+      if (!candidate) {
+        if (candidates.size >= MAX_BUDGET_FLOWS) return;
+        candidate = { queue, flowId, budgetKey: null, jobIds: new Set([flowId]) };
+        candidates.set(key, candidate);
+      }
+      candidate.jobIds.add(jobId);
+      if (typeof budgetKey === 'string' && !candidate.budgetKey) candidate.budgetKey = budgetKey;
+    };
+
+    try {
+      await Promise.all(readable.map((queue) => scanRecent(queue, (job) => {
+        const { parentId, parentQueue, budgetKey } = job as any;
+        // Children point at their flow's parent; a job with a budget key and no parent is a flow root itself.
+        if (parentId) note(parentQueue ?? queue.name, String(parentId), String(job.id), budgetKey);
+        else if (budgetKey) note(queue.name, String(job.id), String(job.id), budgetKey);
+      })));
+
+      const exceeded = hub.recent().filter((e) => e.event === 'budget-exceeded');
+      const flows: FlowBudgetSummary[] = [];
+      await Promise.all([...candidates.values()].map(async (c) => {
+        const budget = await queueMap.get(c.queue)?.getFlowBudget(c.flowId);
+        if (!budget) return;
+        const limits = budgetLimits(budget);
+        const percentUsed = limits.reduce((max, l) => Math.max(max, l.percent), 0);
+        const exceededEvents: FlowBudgetSummary['exceededEvents'] = [];
+        for (const e of exceeded) {
+          const { jobId, flowId } = (e.payload ?? {}) as { jobId?: unknown; flowId?: unknown };
+          if (flowId === c.flowId || (jobId != null && c.jobIds.has(String(jobId)))) {
+            exceededEvents.push({ id: e.id, queue: e.queue, jobId: jobId != null ? String(jobId) : null });
+          }
+        }
+        flows.push({
+          queue: c.queue,
+          flowId: c.flowId,
+          budgetKey: c.budgetKey,
+          limits,
+          percentUsed,
+          status: (budget as any).exceeded || percentUsed >= 1 ? 'exceeded' : percentUsed >= warnAt ? 'warning' : 'ok',
+          onExceeded: typeof (budget as any).onExceeded === 'string' ? (budget as any).onExceeded : null,
+          exceededEvents,
+          budget,
+        });
+      }));
+      flows.sort((a, b) => b.percentUsed - a.percentUsed || a.flowId.localeCompare(b.flowId));
+      return json(200, { warnAt, truncated: candidates.size >= MAX_BUDGET_FLOWS, flows });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+}
@@ -0,0 +1,163 @@
+import type { Job, Queue, SearchJobsOptions } from 'glide-mq';
+import { guardMutation } from './guard';
+import type { ActionString, RouteContext } from './core';
+import { VALID_STATES, json, safeError } from './http';
+import type { DashboardRequest, JobState } from './http';
+
+/** Upper bound on how many jobs one bulk request may touch. */
+export const MAX_BULK_JOBS = 1000;
+const BULK_CONCURRENCY = 25;
+
+type BulkAction = 'remove' | 'retry' | 'promote' | 'changePriority' | 'changeDelay';
+
+const BULK_ACTIONS: Record<BulkAction, ActionString> = {
+  remove: 'job:remove',
+  retry: 'job:retry',
+  promote: 'job:promote',
+  changePriority: 'job:changePriority',
+  changeDelay: 'job:changeDelay',
+};
+
+export interface BulkJobResult {
+  id: string;
+  status: 'ok' | 'denied' | 'not_found' | 'error';
+  error?: string;
+}
+
+/** Resolve the jobs a bulk request targets, from explicit ids or a search-style filter. */
+async function resolveTargets(
+  queue: Queue,
+  body: any,
+  limit: number,
+): Promise<{ ids: string[]; jobs: Map<string, Job> } | { error: string }> {
+  if (Array.isArray(body.ids)) {
+    if (!body.ids.every((id: unknown) => typeof id === 'string' || typeof id === 'number')) {
+      return { error: 'ids must be an array of job ids' };
+    }
+    const ids = [...new Set(body.ids.map(String))] as string[];
+    if (ids.length > MAX_BULK_JOBS) {
+      return { error: `At most ${MAX_BULK_JOBS} ids per request` };
+    }
+    return { ids, jobs: new Map() };
+  }
+
+  const filter = body.filter;
+  if (!filter || typeof filter !== 'object') {
+    return { error: 'Provide either ids or filter' };
+  }
+  const searchOpts: SearchJobsOptions = { limit };
+  if (filter.state != null) {
+    if (!VALID_STATES.includes(filter.state as JobState)) {
+      return { error: `Invalid state: ${filter.state}. Must be one of: ${VALID_STATES.join(', ')}` };
+    }
+    searchOpts.state = filter.state as JobState;
+  }
+  if (filter.name != null) {
+    if (typeof filter.name !== 'string') return { error: 'filter.name must be a string' };
+    searchOpts.name = filter.name;
+  }
+  if (filter.data != null) {
+    if (typeof filter.data !== 'object') return { error: 'filter.data must be an object' };
+    searchOpts.data = filter.data;
+  }
+  if (!searchOpts.state && !searchOpts.name && !searchOpts.data) {
+    return { error: 'filter must set at least one of state, name or data' };
+  }
+  const found = await queue.searchJobs(searchOpts);
+  const jobs = new Map<string, Job>();
+  for (const j of found) jobs.set(String(j.id), j);
+  return { ids: [...jobs.keys()], jobs };
+}
+
+function validateArgs(action: BulkAction, body: any): string | null {
+  if (action === 'changePriority') {
+    const priority = parseInt(body.priority, 10);
+    if (isNaN(priority) || priority < 0) return 'priority must be a non-negative integer';
+  }
+  if (action === 'changeDelay') {
+    const delay = parseInt(body.delay, 10);
+    if (isNaN(delay) || delay < 0) return 'delay must be a non-negative integer (ms)';
+  }
+  return null;
+}
+
+async function applyAction(job: Job, action: BulkAction, body: any): Promise<void> {
+  switch (action) {
+    case 'remove': return job.remove();
+    case 'retry': return job.retry();
+    case 'promote': return job.promote();
+    case 'changePriority': return job.changePriority(parseInt(body.priority, 10));
+    case 'changeDelay': return job.changeDelay(parseInt(body.delay, 10));
+  }
+}
+
+export function bulkRoutes(ctx: RouteContext): void {
+  const { queueMap, opts } = ctx;
+
+  // --- Apply one job action to a selection or to every job matching a filter ---
+  ctx.route('POST', '/api/queues/:name/jobs/bulk', async (req: DashboardRequest) => {
+    if (opts?.readOnly) {
+      return json(403, { error: 'Dashboard is in read-only mode' });
+    }
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const body = req.body ?? {};
+    const action = body.action as BulkAction;
+    if (!Object.prototype.hasOwnProperty.call(BULK_ACTIONS, action)) {
+      return json(400, { error: `action must be one of: ${Object.keys(BULK_ACTIONS).join(', ')}` });
+    }
+    const argError = validateArgs(action, body);
+    if (argError) {
+      return json(400, { error: argError });
+    }
+    const limit = Math.min(parseInt(body.limit, 10) || MAX_BULK_JOBS, MAX_BULK_JOBS);
+    const actionString = BULK_ACTIONS[action];
+
+    try {
+      const targets = await resolveTargets(queue, body, limit);
+      if ('error' in targets) {
+        return json(400, { error: targets.error });
+      }
+
+      const results: BulkJobResult[] = [];
+      const runOne = async (id: string): Promise<BulkJobResult> => {
+        // Every job goes through the same authorize check as its single-job route.
+        const denied = await guardMutation(req, opts, actionString);
+        if (denied) return { id, status: 'denied' };
+        try {
+          const job = targets.jobs.get(id) ?? await queue.getJob(id);
+          if (!job) return { id, status: 'not_found' };
+          await applyAction(job, action, body);
+          return { id, status: 'ok' };
+        } catch (err) {
+          return { id, status: 'error', error: err instanceof Error ? err.message : 'Internal server error' };
+        }
+      };
+      for (let i = 0; i < targets.ids.length; i += BULK_CONCURRENCY) {
+        results.push(...await Promise.all(targets.ids.slice(i, i + BULK_CONCURRENCY).map(runOne)));
+      }
+
+      await ctx.recordAudit(req, results.map((r) => ({
+        action: actionString,
+        queue: queue.name,
+        jobId: r.id,
+        outcome: r.status === 'ok' ? 'success' : r.status === 'denied' ? 'denied' : 'error',
+        status: r.status === 'ok' ? 200 : r.status === 'denied' ? 403 : r.status === 'not_found' ? 404 : 500,
+        ...(r.error ? { error: r.error } : {}),
+      })));
+
+      const succeeded = results.filter((r) => r.status === 'ok').length;
+      return json(200, {
+        action,
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded,
+        results,
+      });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+}
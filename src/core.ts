@@ -0,0 +1,991 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { Job, Queue, QueueEvents } from 'glide-mq';
+import { UNREDACTED_ACTION } from './actions';
+import type { ActionString, ReadAction } from './actions';
+import { alertRoutes, createAlertEngine } from './alerts';
+import type { AlertOptions } from './alerts';
+import { createAuditLog, summarizeAuditBody } from './audit';
+import type { AuditEntry, AuditFilter, AuditLog, AuditOptions, AuditOutcome } from './audit';
+import { budgetRoutes } from './budgets';
+import { bulkRoutes } from './bulk';
+import { createDiscovery } from './discovery';
+import type { DiscoveryOptions } from './discovery';
+import { dlqRoutes } from './dlq';
+import { createEventHub, eventRoutes } from './events';
+import { failureRoutes } from './failures';
+import { flowRoutes } from './flows';
+import { guardMutation, guardRead } from './guard';
+import { createHistorySampler, historyRoutes } from './history';
+import type { HistoryOptions } from './history';
+import { MAX_PAGE_SIZE, json, safeError, serializeJob } from './http';
+import type { DashboardRequest, DashboardResponse } from './http';
+import { jobDataRoutes } from './job-data';
+import { jobListRoutes } from './job-list';
+import { jobStreamRoutes } from './job-stream';
+import { latencyRoutes } from './latency';
+import { prometheusRoutes } from './prometheus';
+import type { PrometheusOptions } from './prometheus';
+import { jobSerializer, rbacRoutes, resolveAccess } from './rbac';
+import type { Access, RbacOptions } from './rbac';
+import { createRedaction } from './redact';
+import type { RedactionRule, Redactor } from './redact';
+import { schedulerRoutes } from './schedulers';
+import type { SchedulerStore } from './schedulers';
+import { memorySavedSearchStore, searchRoutes } from './search';
+import type { SavedSearchStore } from './search';
+import type { JobDataValidator, JsonSchema } from './schema';
+import { timelineRoutes } from './timeline';
+import { transferRoutes } from './transfer';
+import { usageRoutes } from './usage';
+import { workerRoutes } from './workers';
+
+let dashboardHtmlCache: string | null = null;
+function getDashboardHtml(): string {
+  if (dashboardHtmlCache) return dashboardHtmlCache;
+  dashboardHtmlCache = readFileSync(join(__dirname, 'dashboard-ui.html'), 'utf8');
+  return dashboardHtmlCache;
+}
+
+/**
+ * Options shared by every adapter. `TReq` is the framework-native request object
+ * (Express `Request`, Fastify `FastifyRequest`, Hono `Context`, Koa `Context`)
+ * handed to `authorize`.
+ */
+export interface DashboardOptions<TReq = any> {
+  /** QueueEvents instances to stream SSE events from. One per queue. */
+  queueEvents?: QueueEvents[];
+  /** When true, all mutation routes (POST, DELETE) return 403. */
+  readOnly?: boolean;
+  /**
+   * Authorization callback. Called before mutation routes execute.
+   * Return true to allow, false to deny (403).
+   */
+  authorize?: (req: TReq, action: string) => boolean | Promise<boolean>;
+  /**
+   * Batch form of `authorize` for `GET /api/me`: given every mutation action, return the ones
+   * the caller may perform. Without it `/api/me` asks `authorize` once per action. Mutations
+   * are still checked through `authorize`.
+   */
+  authorizeActions?: (req: TReq, actions: string[]) => string[] | Promise<string[]>;
+  /**
+   * Role-based access control for reads and mutations, scoped per queue. Checked before
+   * `authorize`; a mutation has to pass both. `GET /api/me` reports the caller's capabilities.
+   */
+  rbac?: RbacOptions<TReq>;
+  /**
+   * Mask sensitive values in job data, opts, results, logs, stream output and event payloads.
+   * With `rbac`, roles holding `job:readUnredacted` see the raw values.
+   */
+  redact?: RedactionRule[];
+  /** Record every mutation attempt (allowed, denied or failed) and serve it at `GET /api/audit`. */
+  audit?: AuditOptions<TReq>;
+  /** Serve a Prometheus / OpenMetrics scrape endpoint at `GET /metrics`. Off by default. */
+  prometheus?: boolean | PrometheusOptions<TReq>;
+  /** Evaluate alert rules in the background, notify on firing/resolved, and serve `GET /api/alerts`. */
+  alerts?: AlertOptions;
+  /** Snapshot job counts per queue in the background and serve them at `GET /api/queues/:name/history`. */
+  history?: boolean | HistoryOptions;
+  /**
+   * Per-queue validation for job data added or edited from the dashboard, keyed by queue name.
+   * Either a JSON Schema (a common subset of keywords is checked) or a function returning error messages.
+   */
+  jobSchemas?: Record<string, JsonSchema | JobDataValidator>;
+  /**
+   * Where paused schedulers are kept until resumed. Pausing is refused (501) without one: a paused
+   * scheduler exists only in this store, so it must outlive restarts and be shared by every replica.
+   */
+  schedulerStore?: SchedulerStore;
+  /** Where named searches saved from the search box are kept. Defaults to memory, so a restart loses them. */
+  savedSearchStore?: SavedSearchStore;
+  /** Find queues under a key prefix and mount or unmount them as they come and go. */
+  discovery?: DiscoveryOptions;
+  /**
+   * Further clusters or environments served by the same dashboard, keyed by name. Each one is
+   * reachable under `/api/clusters/:cluster/...`; the queues passed in directly form `defaultCluster`.
+   */
+  clusters?: Record<string, ClusterOptions>;
+  /** Name of the cluster formed by the queues passed in directly. Default `default`. */
+  defaultCluster?: string;
+}
+
+/** Queues of one named cluster. Every other option is shared with the default cluster. */
+export interface ClusterOptions {
+  queues: Queue[];
+  /** QueueEvents instances to stream SSE events from. One per queue. */
+  queueEvents?: QueueEvents[];
+  /** Find queues under a key prefix on this cluster's connection. */
+  discovery?: DiscoveryOptions;
+  /** Count history for this cluster. Defaults to the top-level `history` option. */
+  history?: boolean | HistoryOptions;
+  /** Paused schedulers of this cluster. Not shared with the default cluster, whose queue names may repeat. Pausing is refused without one. */
+  schedulerStore?: SchedulerStore;
+  /** Saved searches of this cluster. Not shared with the default cluster, for the same reason. */
+  savedSearchStore?: SavedSearchStore;
+  /** Display name in the cluster switcher. Defaults to the key. */
+  label?: string;
+}
+
+export type DashboardMethod = 'GET' | 'POST' | 'DELETE';
+
+export type RouteHandler<TReq = any> = (req: DashboardRequest<TReq>) => Promise<DashboardResponse>;
+
+export interface DashboardRoute<TReq = any> {
+  method: DashboardMethod;
+  /** Express-style path with `:param` segments. */
+  path: string;
+  handler: RouteHandler<TReq>;
+  /** Largest JSON body the adapters accept for this route, when above MAX_BODY_BYTES. */
+  bodyLimit?: number;
+}
+
+/** Mount and unmount queues after the dashboard is created. */
+export interface QueueRegistry {
+  /**
+   * Mount a queue, and its QueueEvents for live events, in `cluster` (the default cluster when
+   * omitted). A queue of the same name is replaced. Throws for an unknown cluster.
+   */
+  addQueue(queue: Queue, queueEvents?: QueueEvents, cluster?: string): void;
+  /** Unmount a queue by name. Returns false when no such queue (or cluster) exists. */
+  removeQueue(name: string, cluster?: string): boolean;
+}
+
+/** What every adapter hands back alongside its framework object. */
+export interface DashboardHandle extends QueueRegistry {
+  /**
+   * Stop discovery, alert and history timers, close the queues discovery opened, and stop
+   * listening on QueueEvents. Queues and QueueEvents passed in stay open; they are the caller's.
+   */
+  close(): Promise<void>;
+}
+
+export interface DashboardCore<TReq = any> extends DashboardHandle {
+  routes: DashboardRoute<TReq>[];
+  /** Resolve a method + relative path to a route and its decoded params. */
+  match(method: string, path: string): { route: DashboardRoute<TReq>; params: Record<string, string> } | null;
+}
+
+/** Handed to feature modules so they can register routes on the core. */
+export interface RouteContext<TReq = any> {
+  queues: Queue[];
+  queueMap: Map<string, Queue>;
+  opts: DashboardOptions<TReq> | undefined;
+  audit: AuditLog<TReq> | null;
+  route(method: DashboardMethod, path: string, handler: RouteHandler<TReq>): void;
+  /** Register a GET route behind guardRead. */
+  read(path: string, action: ReadAction, handler: RouteHandler<TReq>): void;
+  /**
+   * Register a route behind guardMutation that is recorded in the audit log. `auditBody` trims
+   * the redacted body before it is recorded, for bodies that carry payloads in another shape.
+   * `bodyLimit` raises the adapters' body limit for this route only.
+   */
+  mutation(
+    method: DashboardMethod,
+    path: string,
+    action: ActionString,
+    handler: RouteHandler<TReq>,
+    auditBody?: (body: any) => unknown,
+    bodyLimit?: number,
+  ): void;
+  /**
+   * Record mutations in the audit log as `mutation` does: the request body redacted, trimmed by
+   * `auditBody` and summarized once, with the cluster tag. A no-op without `audit`.
+   */
+  recordAudit(
+    req: DashboardRequest<TReq>,
+    entries: Omit<AuditEntry, 'actor' | 'timestamp' | 'body' | 'cluster'>[],
+    auditBody?: (body: any) => unknown,
+  ): Promise<void>;
+  /** What the caller may do, for routes that filter per queue. */
+  access(req: DashboardRequest<TReq>): Promise<Access>;
+  /** Serializer for jobs of `queue` as this caller may see them. */
+  jobView(req: DashboardRequest<TReq>, queue: string): Promise<(job: Job) => Record<string, unknown>>;
+  /** Redaction for content of `queue` emitted outside jobView (events, stream output); null when none applies. */
+  redactor(req: DashboardRequest<TReq>, queue: string): Promise<Redactor | null>;
+}
+
+export type { AccessAction, ActionString, ReadAction } from './actions';
+
+const AUDIT_OUTCOMES: AuditOutcome[] = ['success', 'denied', 'error'];
+const DEFAULT_CLUSTER = 'default';
+
+function compilePath(path: string): { regex: RegExp; keys: string[] } {
+  const keys: string[] = [];
+  const pattern = path
+    .split('/')
+    .map((segment) => {
+      if (segment.startsWith(':')) {
+        keys.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+  return { regex: new RegExp(`^${pattern}/?$`), keys };
+}
+
+function createMatcher<TReq>(routes: DashboardRoute<TReq>[]): DashboardCore<TReq>['match'] {
+  const compiled = routes.map((r) => ({ route: r, ...compilePath(r.path) }));
+  return (method, path) => {
+    const upper = method.toUpperCase();
+    for (const { route: r, regex, keys } of compiled) {
+      if (r.method !== upper) continue;
+      const m = regex.exec(path || '/');
+      if (!m) continue;
+      const params: Record<string, string> = {};
+      try {
+        keys.forEach((key, i) => {
+          params[key] = decodeURIComponent(m[i + 1]);
+        });
+      } catch {
+        // A malformed escape such as %E0%A4%A is the client's fault, not a server error.
+        return { route: { ...r, handler: async () => json(400, { error: 'Malformed URL' }) }, params: {} };
+      }
+      return { route: r, params };
+    }
+    return null;
+  };
+}
+
+/**
+ * The route table for one cluster. `cluster` is null when the dashboard has no named clusters;
+ * otherwise it is recorded on audit entries and alert notifications.
+ */
+function createClusterCore<TReq>(
+  initialQueues: Queue[],
+  opts: DashboardOptions<TReq> | undefined,
+  audit: AuditLog<TReq> | null,
+  cluster: string | null,
+): DashboardCore<TReq> {
+  const routes: DashboardRoute<TReq>[] = [];
+  // Our own copy, changed in place by addQueue/removeQueue so every module sees the current set.
+  const queues = [...initialQueues];
+  const queueMap = new Map<string, Queue>();
+  for (const q of queues) {
+    queueMap.set(q.name, q);
+  }
+
+  const route = (method: DashboardMethod, path: string, handler: RouteHandler<TReq>, bodyLimit?: number) => {
+    routes.push({
+      method,
+      path,
+      handler: async (req) => {
+        try {
+          return await handler(req);
+        } catch (err) {
+          return safeError(err);
+        }
+      },
+      ...(bodyLimit ? { bodyLimit } : {}),
+    });
+  };
+
+  const redaction = opts?.redact?.length ? createRedaction(opts.redact) : null;
+
+  // Mutations run behind guardMutation and, when auditing is on, record one entry per attempt.
+  // Bodies are redacted for the queue regardless of the caller: audit readers may not hold job:readUnredacted.
+  const mutation: RouteContext<TReq>['mutation'] = (method, path, action, handler, auditBody, bodyLimit) => {
+    route(method, path, async (req) => {
+      const denied = await guardMutation(req, opts, action);
+      const response = denied ?? await handler(req).catch((err) => safeError(err));
+      const failed = response.type === 'json' && response.status >= 400;
+      await recordAudit(req, [{
+        action,
+        queue: req.params.name ?? null,
+        jobId: req.params.id ?? null,
+        outcome: denied ? 'denied' : failed ? 'error' : 'success',
+        status: response.status,
+        ...(failed && !denied ? { error: String((response.body as { error?: unknown })?.error ?? '') } : {}),
+      }], auditBody);
+      return response;
+    }, bodyLimit);
+  };
+
+  const recordAudit: RouteContext<TReq>['recordAudit'] = async (req, entries, auditBody) => {
+    if (!audit) return;
+    let body = req.body ?? null;
+    const redact = redaction?.(req.params.name ?? '');
+    if (redact && body && typeof body === 'object' && !Array.isArray(body)) {
+      body = redact(body);
+      // Bulk and DLQ filters match on job content, so it is masked like the job's own.
+      const { filter } = body as { filter?: unknown };
+      if (filter && typeof filter === 'object' && !Array.isArray(filter)) {
+        body = { ...body, filter: redact(filter as Record<string, unknown>) };
+      }
+    }
+    const recorded = summarizeAuditBody(auditBody && body ? auditBody(body) : body);
+    for (const entry of entries) {
+      await audit.record(req.raw, { ...(cluster ? { cluster } : {}), ...entry, body: recorded });
+    }
+  };
+
+  const read = (path: string, action: ReadAction, handler: RouteHandler<TReq>) => {
+    route('GET', path, async (req) => (await guardRead(req, opts, action)) ?? handler(req));
+  };
+  const access = (req: DashboardRequest<TReq>) => resolveAccess(req, opts);
+  const redactor = async (req: DashboardRequest<TReq>, queue: string) => {
+    const redact = redaction?.(queue) ?? null;
+    if (redact && opts?.rbac && (await access(req)).can(UNREDACTED_ACTION, queue)) return null;
+    return redact;
+  };
+  const jobView = async (req: DashboardRequest<TReq>, queue: string) => {
+    const serialize = jobSerializer(await access(req), queue);
+    const redact = await redactor(req, queue);
+    return redact ? (job: Job) => redact(serialize(job)) : serialize;
+  };
+
+  const queueEvents = opts?.queueEvents ?? [];
+  const events = createEventHub(queueEvents, queueMap);
+  const alerts = opts?.alerts ? createAlertEngine(queues, events, opts.alerts, cluster ?? undefined) : null;
+  const history = opts?.history ? createHistorySampler(queues, opts.history === true ? {} : opts.history) : null;
+  const schedulerStore = opts?.schedulerStore ?? null;
+  const savedSearchStore = opts?.savedSearchStore ?? memorySavedSearchStore();
+  const ctx: RouteContext<TReq> = { queues, queueMap, opts, audit, route, read, mutation, recordAudit, access, jobView, redactor };
+
+  // --- HTML dashboard ---
+  route('GET', '/', async () => ({
+    type: 'text',
+    status: 200,
+    body: getDashboardHtml(),
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'X-Frame-Options': 'DENY',
+      'X-Content-Type-Options': 'nosniff',
+      'Content-Security-Policy':
+        "default-src 'self'; script-src 'unsafe-inline'; style-src 'unsafe-inline' 'self' https://fonts.googleapis.com; font-src https://fonts.gstatic.com; connect-src 'self'",
+    },
+  }));
+
+  // ===== READ ENDPOINTS =====
+
+  // --- Caller capabilities ---
+  rbacRoutes(ctx);
+
+  // --- List all queues with job counts ---
+  read('/api/queues', 'queue:read', async (req) => {
+    try {
+      const caller = await access(req);
+      const result = await Promise.all(
+        queues.filter((q) => caller.can('queue:read', q.name)).map(async (q) => {
+          const counts = await q.getJobCounts();
+          const paused = await q.isPaused();
+          return { name: q.name, counts, paused };
+        }),
+      );
+      return json(200, result);
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Jobs for a queue, in cursor pages merged across states ---
+  jobListRoutes(ctx);
+
+  // --- Get single job ---
+  read('/api/queues/:name/job/:id', 'job:read', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+
+    const jobId = req.params.id;
+    try {
+      const job = await queue.getJob(jobId);
+      if (!job) {
+        return json(404, { error: 'Job not found' });
+      }
+      const state = await job.getState();
+      // Logs are payload content too; callers without job:readData get the job without them.
+      if (!(await access(req)).can('job:readData', queue.name)) {
+        return json(200, { ...(await jobView(req, queue.name))(job), state });
+      }
+      const logs = await queue.getJobLogs(jobId);
+      const result = { ...serializeJob(job), state, logs: logs.logs };
+      const redact = await redactor(req, queue.name);
+      return json(200, redact ? redact(result) : result);
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Get workers for a queue ---
+  read('/api/queues/:name/workers', 'queue:read', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    try {
+      const workers = await queue.getWorkers();
+      return json(200, workers);
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Worker health across queues ---
+  workerRoutes(ctx);
+
+  // --- Job schedulers: validation, previews, pause/resume, run-now and recent runs ---
+  schedulerRoutes(ctx, schedulerStore);
+
+  // --- Get dead letter queue jobs ---
+  read('/api/queues/:name/dlq', 'job:read', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const start = parseInt(req.query.start as string, 10) || 0;
+    const end = parseInt(req.query.end as string, 10);
+    const endVal = isNaN(end) ? 20 : Math.min(end, start + MAX_PAGE_SIZE);
+    try {
+      const jobs = await queue.getDeadLetterJobs(start, endVal);
+      return json(200, jobs.map(await jobView(req, queue.name)));
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Failure fingerprints, with retry per group ---
+  failureRoutes(ctx);
+
+  // --- Get metrics ---
+  read('/api/queues/:name/metrics', 'queue:read', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    try {
+      const [completed, failed] = await Promise.all([
+        queue.getMetrics('completed'),
+        queue.getMetrics('failed'),
+      ]);
+      return json(200, {
+        completed: { count: completed.count, data: completed.data ?? [] },
+        failed: { count: failed.count, data: failed.data ?? [] },
+      });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Wait and processing time percentiles ---
+  latencyRoutes(ctx);
+
+  historyRoutes(ctx, history);
+
+  // --- Search jobs with the query language, and saved searches ---
+  searchRoutes(ctx, savedSearchStore);
+
+  // ===== AI-NATIVE ENDPOINTS =====
+
+  // --- Flow usage aggregation ---
+  read('/api/queues/:name/flows/:id/usage', 'usage:read', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    try {
+      const usage = await queue.getFlowUsage(req.params.id);
+      return json(200, usage);
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Flow budget state ---
+  read('/api/queues/:name/flows/:id/budget', 'usage:read', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    try {
+      const budget = await queue.getFlowBudget(req.params.id);
+      if (!budget) {
+        return json(404, { error: 'No budget for this flow' });
+      }
+      return json(200, budget);
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  flowRoutes(ctx);
+
+  // --- Budget overview across flows ---
+  budgetRoutes(ctx, events);
+
+  // --- Rolling usage summary across mounted queues ---
+  read('/api/usage/summary', 'usage:read', async (req) => {
+    if (queues.length === 0) {
+      return json(200, {
+        startTime: Date.now(),
+        endTime: Date.now(),
+        bucketSizeMs: 60000,
+        queues: [],
+        jobCount: 0,
+        tokens: {},
+        totalTokens: 0,
+        costs: {},
+        totalCost: 0,
+        models: {},
+        perQueue: {},
+      });
+    }
+
+    const requestedQueues = typeof req.query.queues === 'string'
+      ? req.query.queues.split(',').map((value) => value.trim()).filter(Boolean)
+      : undefined;
+
+    if (requestedQueues && requestedQueues.some((name) => !queueMap.has(name))) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const caller = await access(req);
+    if (requestedQueues && requestedQueues.some((name) => !caller.can('usage:read', name))) {
+      return json(403, { error: 'Unauthorized' });
+    }
+
+    const startTime = typeof req.query.start === 'string' ? Number(req.query.start) : undefined;
+    const endTime = typeof req.query.end === 'string' ? Number(req.query.end) : undefined;
+    const windowRaw = typeof req.query.window === 'string' ? req.query.window : undefined;
+    const windowMsRaw = typeof req.query.windowMs === 'string' ? req.query.windowMs : undefined;
+
+    if (windowRaw && windowMsRaw && windowRaw !== windowMsRaw) {
+      return json(400, { error: 'window and windowMs must match when both are provided' });
+    }
+
+    const windowMs = windowMsRaw ?? windowRaw;
+    const numericValues = [
+      ['start', startTime],
+      ['end', endTime],
+      [windowMsRaw ? 'windowMs' : 'window', windowMs != null ? Number(windowMs) : undefined],
+    ] as const;
+
+    for (const [label, value] of numericValues) {
+      if (value == null) continue;
+      if (!Number.isSafeInteger(value) || value < 0 || ((label === 'window' || label === 'windowMs') && value < 1)) {
+        return json(400, { error: `${label} must be a valid integer` });
+      }
+    }
+
+    try {
+      const summary = await (queues[0] as any).getUsageSummary({
+        endTime,
+        queues: requestedQueues ?? queues.map((queue) => queue.name).filter((name) => caller.can('usage:read', name)),
+        startTime,
+        windowMs: windowMs != null ? Number(windowMs) : undefined,
+      });
+      return json(200, summary);
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Token and cost analytics by queue, model and job name ---
+  usageRoutes(ctx);
+
+  // --- Job stream SSE ---
+  jobStreamRoutes(ctx);
+
+  // --- Job lifecycle timeline ---
+  timelineRoutes(ctx, events);
+
+  // ===== MUTATION ENDPOINTS =====
+
+  // --- Pause queue ---
+  mutation('POST', '/api/queues/:name/pause', 'queue:pause', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    try {
+      await queue.pause();
+      return json(200, { status: 'paused' });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Resume queue ---
+  mutation('POST', '/api/queues/:name/resume', 'queue:resume', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    try {
+      await queue.resume();
+      return json(200, { status: 'resumed' });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Remove job ---
+  mutation('DELETE', '/api/queues/:name/jobs/:id', 'job:remove', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const jobId = req.params.id;
+    try {
+      const job = await queue.getJob(jobId);
+      if (!job) {
+        return json(404, { error: 'Job not found' });
+      }
+      await job.remove();
+      return json(200, { status: 'removed' });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Retry job ---
+  mutation('POST', '/api/queues/:name/jobs/:id/retry', 'job:retry', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const jobId = req.params.id;
+    try {
+      const job = await queue.getJob(jobId);
+      if (!job) {
+        return json(404, { error: 'Job not found' });
+      }
+      await job.retry();
+      return json(200, { status: 'retried' });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Promote delayed job ---
+  mutation('POST', '/api/queues/:name/jobs/:id/promote', 'job:promote', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const jobId = req.params.id;
+    try {
+      const job = await queue.getJob(jobId);
+      if (!job) {
+        return json(404, { error: 'Job not found' });
+      }
+      await job.promote();
+      return json(200, { status: 'promoted' });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Obliterate queue ---
+  mutation('POST', '/api/queues/:name/obliterate', 'queue:obliterate', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    try {
+      await queue.obliterate({ force: true });
+      return json(200, { status: 'obliterated' });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Drain waiting jobs ---
+  mutation('POST', '/api/queues/:name/drain', 'queue:drain', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const delayed = req.body?.delayed === true;
+    try {
+      await queue.drain(delayed);
+      return json(200, { status: 'drained' });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Bulk retry failed jobs ---
+  mutation('POST', '/api/queues/:name/retry-all', 'queue:retryAll', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const count = parseInt(req.body?.count, 10) || 0;
+    try {
+      const retried = await queue.retryJobs(count > 0 ? { count } : undefined);
+      return json(200, { status: 'ok', retried });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Clean old jobs ---
+  mutation('POST', '/api/queues/:name/clean', 'queue:clean', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+
+    const grace = parseInt(req.body?.grace, 10);
+    const limit = parseInt(req.body?.limit, 10) || 100;
+    const type = req.body?.type;
+
+    if (isNaN(grace) || grace < 0) {
+      return json(400, { error: 'grace must be a non-negative integer (ms)' });
+    }
+    if (type !== 'completed' && type !== 'failed') {
+      return json(400, { error: 'type must be "completed" or "failed"' });
+    }
+
+    try {
+      const removed = await queue.clean(grace, Math.min(limit, 1000), type);
+      return json(200, { status: 'ok', removed: removed.length });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Change job priority ---
+  mutation('POST', '/api/queues/:name/jobs/:id/priority', 'job:changePriority', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const jobId = req.params.id;
+    const priority = parseInt(req.body?.priority, 10);
+    if (isNaN(priority) || priority < 0) {
+      return json(400, { error: 'priority must be a non-negative integer' });
+    }
+    try {
+      const job = await queue.getJob(jobId);
+      if (!job) {
+        return json(404, { error: 'Job not found' });
+      }
+      await job.changePriority(priority);
+      return json(200, { status: 'ok' });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Change job delay ---
+  mutation('POST', '/api/queues/:name/jobs/:id/delay', 'job:changeDelay', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const jobId = req.params.id;
+    const delay = parseInt(req.body?.delay, 10);
+    if (isNaN(delay) || delay < 0) {
+      return json(400, { error: 'delay must be a non-negative integer (ms)' });
+    }
+    try {
+      const job = await queue.getJob(jobId);
+      if (!job) {
+        return json(404, { error: 'Job not found' });
+      }
+      await job.changeDelay(delay);
+      return json(200, { status: 'ok' });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Add jobs and edit job data ---
+  jobDataRoutes(ctx);
+
+  // --- Export jobs and import them back ---
+  transferRoutes(ctx);
+
+  // --- Requeue, purge and group dead-lettered jobs ---
+  dlqRoutes(ctx);
+
+  // --- Bulk job actions ---
+  bulkRoutes(ctx);
+
+  // ===== AUDIT LOG =====
+
+  read('/api/audit', 'audit:read', async (req) => {
+    if (!audit) {
+      return json(404, { error: 'Audit log is not enabled' });
+    }
+    const filter: AuditFilter = {};
+    for (const key of ['cluster', 'actor', 'action', 'queue', 'jobId'] as const) {
+      if (req.query[key]) filter[key] = req.query[key];
+    }
+    if (req.query.outcome) {
+      if (!AUDIT_OUTCOMES.includes(req.query.outcome as AuditOutcome)) {
+        return json(400, { error: `Invalid outcome: ${req.query.outcome}. Must be one of: ${AUDIT_OUTCOMES.join(', ')}` });
+      }
+      filter.outcome = req.query.outcome as AuditOutcome;
+    }
+    for (const key of ['since', 'until', 'limit'] as const) {
+      if (req.query[key] == null) continue;
+      const value = Number(req.query[key]);
+      if (!Number.isSafeInteger(value) || value < 0) {
+        return json(400, { error: `${key} must be a valid integer` });
+      }
+      filter[key] = value;
+    }
+    try {
+      const entries = await audit.query(filter);
+      if (!entries) {
+        return json(404, { error: 'No queryable audit sink configured' });
+      }
+      return json(200, entries);
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // ===== ALERTS =====
+
+  alertRoutes(ctx, alerts);
+
+  // ===== PROMETHEUS =====
+
+  if (opts?.prometheus) {
+    prometheusRoutes(ctx, opts.prometheus === true ? {} : opts.prometheus);
+  }
+
+  // ===== SSE EVENT STREAM =====
+
+  eventRoutes(ctx, events);
+
+  // ===== RUNTIME QUEUES =====
+
+  const removeQueue = (name: string) => {
+    const index = queues.findIndex((q) => q.name === name);
+    if (index === -1) return false;
+    queues.splice(index, 1);
+    queueMap.delete(name);
+    events.detach(name);
+    alerts?.forget(name);
+    return true;
+  };
+  const addQueue = (queue: Queue, queueEvents?: QueueEvents) => {
+    const index = queues.findIndex((q) => q.name === queue.name);
+    if (index === -1) queues.push(queue);
+    else queues[index] = queue;
+    queueMap.set(queue.name, queue);
+    if (queueEvents) {
+      events.detach(queue.name);
+      events.attach(queueEvents);
+    }
+  };
+  const discovery = opts?.discovery
+    ? createDiscovery({ addQueue, removeQueue, get: (name) => queueMap.get(name) }, opts.discovery)
+    : null;
+
+  const close = async () => {
+    await discovery?.close();
+    alerts?.stop();
+    history?.stop();
+    events.close();
+  };
+
+  return { routes, addQueue, removeQueue, close, match: createMatcher(routes) };
+}
+
+/**
+ * Build the framework-agnostic dashboard: a route table of handlers that take a
+ * DashboardRequest and resolve to a DashboardResponse. Adapters translate both ends.
+ */
+export function createDashboardCore<TReq = any>(
+  initialQueues: Queue[],
+  opts?: DashboardOptions<TReq>,
+): DashboardCore<TReq> {
+  // One audit log for every cluster, so `GET /api/audit` shows them all.
+  const audit = opts?.audit ? createAuditLog(opts.audit) : null;
+  if (!opts?.clusters) {
+    return createClusterCore(initialQueues, opts, audit, null);
+  }
+
+  const defaultName = opts.defaultCluster ?? DEFAULT_CLUSTER;
+  if (Object.prototype.hasOwnProperty.call(opts.clusters, defaultName)) {
+    throw new TypeError(`Cluster "${defaultName}" clashes with the default cluster; set defaultCluster to another name`);
+  }
+  const clusters = new Map<string, { label: string; core: DashboardCore<TReq> }>();
+  const main = createClusterCore(initialQueues, opts, audit, defaultName);
+  clusters.set(defaultName, { label: defaultName, core: main });
+  for (const [name, c] of Object.entries(opts.clusters)) {
+    const clusterOpts: DashboardOptions<TReq> = {
+      ...opts,
+      queueEvents: c.queueEvents,
+      discovery: c.discovery,
+      history: c.history ?? opts.history,
+      schedulerStore: c.schedulerStore,
+      savedSearchStore: c.savedSearchStore,
+      // Scrapes stay on /metrics, which reports the default cluster.
+      prometheus: false,
+    };
+    clusters.set(name, { label: c.label ?? name, core: createClusterCore(c.queues, clusterOpts, audit, name) });
+  }
+
+  const routes: DashboardRoute<TReq>[] = [...main.routes];
+
+  // --- Clusters with their queue totals ---
+  routes.push({
+    method: 'GET',
+    path: '/api/clusters',
+    handler: async (req) => {
+      const denied = await guardRead(req, opts, 'queue:read');
+      if (denied) return denied;
+      const result = await Promise.all([...clusters].map(async ([name, { label, core }]) => {
+        // The cluster's own queue list applies the caller's per-queue access.
+        const res = await core.match('GET', '/api/queues')!.route.handler(req);
+        if (res.type !== 'json') {
+          return { name, label, error: 'Unavailable' };
+        }
+        if (res.status !== 200) {
+          return { name, label, error: String((res.body as { error?: unknown })?.error ?? 'Unavailable') };
+        }
+        const list = res.body as { counts: Record<string, number>; paused: boolean }[];
+        const counts: Record<string, number> = {};
+        for (const q of list) {
+          for (const [state, n] of Object.entries(q.counts)) counts[state] = (counts[state] ?? 0) + n;
+        }
+        return { name, label, queues: list.length, paused: list.filter((q) => q.paused).length, counts };
+      }));
+      return json(200, { default: defaultName, clusters: result });
+    },
+  });
+
+  // --- Every /api route again under /api/clusters/:cluster ---
+  for (const r of main.routes) {
+    if (!r.path.startsWith('/api/')) continue;
+    const key = `${r.method} ${r.path}`;
+    routes.push({
+      method: r.method,
+      path: '/api/clusters/:cluster' + r.path.slice('/api'.length),
+      handler: async (req) => {
+        const { cluster, ...params } = req.params;
+        const target = clusters.get(cluster)?.core.routes.find((t) => `${t.method} ${t.path}` === key);
+        if (!target) {
+          return json(404, { error: 'Cluster not found' });
+        }
+        return target.handler({ ...req, params });
+      },
+      ...(r.bodyLimit ? { bodyLimit: r.bodyLimit } : {}),
+    });
+  }
+
+  const registryFor = (cluster: string | undefined) => clusters.get(cluster ?? defaultName)?.core;
+
+  return {
+    routes,
+    addQueue(queue, queueEvents, cluster) {
+      const core = registryFor(cluster);
+      if (!core) throw new TypeError(`Unknown cluster "${cluster}"`);
+      core.addQueue(queue, queueEvents);
+    },
+    removeQueue(name, cluster) {
+      return registryFor(cluster)?.removeQueue(name) ?? false;
+    },
+    async close() {
+      await Promise.all([...clusters.values()].map(({ core }) => core.close()));
+    },
+    match: createMatcher(routes),
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * Cron patterns as glide-mq schedulers accept them: five fields (minute hour day month weekday) or
+ * six with leading seconds, with `*`, `?`, lists, ranges, steps, month and weekday names, and the
+ * `@daily`-style macros. Used to reject bad patterns before they are saved and to preview fire times.
+ */
+
+/** The allowed values of each field of a parsed pattern. */
+export interface CronFields {
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  /** 0 is Sunday; 7 is folded into 0. */
+  weekdays: Set<number>;
+  /** True when day-of-month is `*` or `?`. When both day fields are restricted, either may match. */
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const FIELDS: FieldSpec[] = [
+  { name: 'second', min: 0, max: 59 },
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+/** How far ahead `nextCronTimes` looks before deciding a pattern never fires. */
+const SEARCH_HORIZON_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseValue(text: string, spec: FieldSpec): number | string {
+  let value: number;
+  if (/^\d+$/.test(text)) {
+    value = Number(text);
+  } else {
+    const index = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+    if (index === -1) return `${spec.name}: "${text}" is not a number${spec.names ? ' or name' : ''}`;
+    value = index + (spec.name === 'month' ? 1 : 0);
+  }
+  if (value < spec.min || value > spec.max) return `${spec.name}: ${value} is out of range ${spec.min}-${spec.max}`;
+  return value;
+}
+
+function parseField(text: string, spec: FieldSpec): { values: Set<number>; any: boolean } | { error: string } {
+  const values = new Set<number>();
+  const any = text === '*' || text === '?';
+  for (const part of text.split(',')) {
+    if (!part) return { error: `${spec.name}: empty list item in "${text}"` };
+    if (part.includes('#') || /^\d*[LW]$/i.test(part) || /^LW$/i.test(part)) {
+      return { error: `${spec.name}: "${part}" is not supported (L, W and # are not available)` };
+    }
+    const pieces = part.split('/');
+    if (pieces.length > 2) return { error: `${spec.name}: "${part}" has more than one step` };
+    const [range, stepText] = pieces;
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || Number(stepText) === 0) return { error: `${spec.name}: step "${stepText}" must be a positive integer` };
+      step = Number(stepText);
+    }
+    let from: number;
+    let to: number;
+    if (range === '*' || range === '?') {
+      if (range === '?' && spec.name !== 'day of month' && spec.name !== 'day of week') {
+        return { error: `${spec.name}: "?" is only allowed for day of month and day of week` };
+      }
+      from = spec.min;
+      to = spec.name === 'day of week' ? 6 : spec.max;
+    } else {
+      const bounds = range.split('-');
+      if (bounds.length > 2 || bounds.some((b) => !b)) return { error: `${spec.name}: "${range}" is not a value or range` };
+      const start = parseValue(bounds[0], spec);
+      if (typeof start === 'string') return { error: start };
+      const end = bounds.length === 2 ? parseValue(bounds[1], spec) : stepText !== undefined ? spec.max : start;
+      if (typeof end === 'string') return { error: end };
+      if (end < start) return { error: `${spec.name}: range ${bounds.join('-')} runs backwards` };
+      from = start;
+      to = end;
+    }
+    for (let v = from; v <= to; v += step) values.add(spec.name === 'day of week' && v === 7 ? 0 : v);
+  }
+  return { values, any };
+}
+
+/** Parse a cron pattern. Errors name the offending field so they can be shown as-is. */
+export function parseCron(pattern: string): { cron: CronFields } | { error: string } {
+  const trimmed = pattern.trim();
+  const expanded = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  if (expanded.startsWith('@')) return { error: `unknown macro "${trimmed}"` };
+  const parts = expanded.split(/\s+/).filter(Boolean);
+  if (parts.length !== 5 && parts.length !== 6) {
+    return { error: `expected 5 fields (minute hour day month weekday) or 6 with seconds first, got ${parts.length}` };
+  }
+  if (parts.length === 5) parts.unshift('0');
+  const fields: { values: Set<number>; any: boolean }[] = [];
+  for (let i = 0; i < FIELDS.length; i++) {
+    const parsed = parseField(parts[i], FIELDS[i]);
+    if ('error' in parsed) return parsed;
+    fields.push(parsed);
+  }
+  const [seconds, minutes, hours, days, months, weekdays] = fields;
+  return {
+    cron: {
+      seconds: seconds.values,
+      minutes: minutes.values,
+      hours: hours.values,
+      days: days.values,
+      months: months.values,
+      weekdays: weekdays.values,
+      anyDay: days.any,
+      anyWeekday: weekdays.any,
+    },
+  };
+}
+
+/** True when `tz` is an IANA time zone this runtime knows. */
+export function isValidTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock time of `instant` in `tz`, encoded as if that wall clock were UTC. */
+function toWall(instant: number, tz: string): number {
+  let format = formatters.get(tz);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone: tz, hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    formatters.set(tz, format);
+  }
+  const parts: Record<string, number> = {};
+  for (const p of format.formatToParts(instant)) {
+    if (p.type !== 'literal') parts[p.type] = Number(p.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+/** The instant a wall-clock time happens in `tz`, the earlier one when clocks go back; null in a DST gap. */
+function fromWall(wall: number, tz: string): number | null {
+  let found: number | null = null;
+  // The offset changes at most once a day, so the offsets half a day either side cover both sides of a change.
+  for (const probe of [wall - DAY_MS / 2, wall + DAY_MS / 2]) {
+    const candidate = wall - (toWall(probe, tz) - Math.floor(probe / 1000) * 1000);
+    if (toWall(candidate, tz) === wall && (found == null || candidate < found)) found = candidate;
+  }
+  return found;
+}
+
+function dayMatches(cron: CronFields, date: Date): boolean {
+  const day = cron.days.has(date.getUTCDate());
+  const weekday = cron.weekdays.has(date.getUTCDay());
+  if (cron.anyDay) return weekday;
+  if (cron.anyWeekday) return day;
+  return day || weekday;
+}
+
+/** The next `count` fire times strictly after `after`, in epoch ms. Fewer when the pattern stops firing within five years. */
+export function nextCronTimes(cron: CronFields, tz: string, after: number, count: number): number[] {
+  const times: number[] = [];
+  let wall = Math.floor(toWall(after, tz) / 1000) * 1000 + 1000;
+  const limit = wall + SEARCH_HORIZON_MS;
+  while (times.length < count && wall <= limit) {
+    const d = new Date(wall);
+    if (!cron.months.has(d.getUTCMonth() + 1)) {
+      wall = Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1);
+    } else if (!dayMatches(cron, d)) {
+      wall = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1);
+    } else if (!cron.hours.has(d.getUTCHours())) {
+      wall = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), d.getUTCHours() + 1);
+    } else if (!cron.minutes.has(d.getUTCMinutes())) {
+      wall = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), d.getUTCHours(), d.getUTCMinutes() + 1);
+    } else if (!cron.seconds.has(d.getUTCSeconds())) {
+      wall += 1000;
+    } else {
+      const instant = fromWall(wall, tz);
+      if (instant != null && instant > after) times.push(instant);
+      wall += 1000;
+    }
+  }
+  return times;
+}
@@ -0,0 +1,141 @@
+import type { Queue, QueueEvents } from 'glide-mq';
+import type { QueueRegistry } from './core';
+
+const DEFAULT_DISCOVERY_INTERVAL_MS = 30000;
+const DEFAULT_PREFIX = 'glide';
+
+export interface DiscoveryOptions {
+  /**
+   * List the keys matching a glob pattern on your connection, e.g. by running SCAN with
+   * MATCH on a Valkey client. Called with `<prefix>:*:meta`, which matches one meta key per
+   * queue in both the hash-tagged and plain layouts rather than every job and event key.
+   */
+  scanKeys: (pattern: string) => Promise<string[]>;
+  /** Build a Queue for a newly found name. The dashboard closes it again when the queue disappears. */
+  createQueue: (name: string) => Queue;
+  /** Build a QueueEvents for a newly found name, so its live events reach the dashboard. */
+  createQueueEvents?: (name: string) => QueueEvents;
+  /** Key prefix the queues were created with. Default `glide`. */
+  prefix?: string;
+  /** Only mount names for which this returns true. */
+  filter?: (name: string) => boolean;
+  /** Time between scans. Default 30 seconds. */
+  intervalMs?: number;
+}
+
+export interface Discovery {
+  /** Scan once now. Runs on `intervalMs` on its own. */
+  discover(): Promise<{ added: string[]; removed: string[] }>;
+  /** Stop scanning, then unmount and close every queue discovery still owns. */
+  close(): Promise<void>;
+}
+
+interface Owned {
+  queue: Queue;
+  events?: QueueEvents;
+}
+
+const release = ({ queue, events }: Owned) => Promise.allSettled([queue.close(), events?.close()]);
+
+/**
+ * Queue names in a list of keys under `prefix`. Both hash-tagged (`glide:{emails}:meta`) and
+ * plain (`glide:emails:meta`) layouts are recognised.
+ */
+export function queueNamesFromKeys(keys: string[], prefix: string): string[] {
+  const names = new Set<string>();
+  const start = prefix + ':';
+  for (const key of keys) {
+    if (!key.startsWith(start)) continue;
+    const rest = key.slice(start.length);
+    const end = rest.startsWith('{') ? rest.indexOf('}') : rest.indexOf(':');
+    if (end <= 0) continue;
+    const name = rest.startsWith('{') ? rest.slice(1, end) : rest.slice(0, end);
+    if (name) names.add(name);
+  }
+  return [...names].sort();
+}
+
+/**
+ * Periodically mount queues found under the prefix and unmount the ones that disappear.
+ * Only queues it mounted itself are unmounted; queues passed in or added by hand stay.
+ * A queue it mounted that was then removed or replaced by hand is closed and no longer its own.
+ */
+export function createDiscovery(
+  registry: QueueRegistry & { get(name: string): Queue | undefined },
+  opts: DiscoveryOptions,
+): Discovery {
+  const prefix = opts.prefix ?? DEFAULT_PREFIX;
+  const owned = new Map<string, Owned>();
+  let running: Promise<{ added: string[]; removed: string[] }> | null = null;
+  let closed = false;
+
+  async function scan() {
+    const added: string[] = [];
+    const removed: string[] = [];
+    let found: string[];
+    try {
+      found = queueNamesFromKeys(await opts.scanKeys(`${prefix}:*:meta`), prefix);
+    } catch {
+      // Keep what is mounted when the connection can't be scanned.
+      return { added, removed };
+    }
+    const names = new Set(opts.filter ? found.filter(opts.filter) : found);
+
+    // Ownership goes by instance: whatever is mounted under the name now is not ours to replace or unmount.
+    for (const [name, entry] of owned) {
+      if (registry.get(name) === entry.queue) continue;
+      owned.delete(name);
+      await release(entry);
+    }
+
+    for (const name of names) {
+      if (registry.get(name)) continue;
+      let queue: Queue | undefined;
+      let events: QueueEvents | undefined;
+      try {
+        queue = opts.createQueue(name);
+        events = opts.createQueueEvents?.(name);
+        registry.addQueue(queue, events);
+        owned.set(name, { queue, events });
+        added.push(name);
+      } catch {
+        // A queue that can't be opened is retried on the next scan; close what was opened of it.
+        if (queue) await release({ queue, events });
+      }
+    }
+    for (const [name, entry] of owned) {
+      if (names.has(name)) continue;
+      owned.delete(name);
+      registry.removeQueue(name);
+      removed.push(name);
+      await release(entry);
+    }
+    return { added, removed };
+  }
+
+  const discover = () => {
+    if (closed) return Promise.resolve({ added: [], removed: [] });
+    // Overlapping scans would both see a new name as missing and open it twice.
+    running ??= scan().finally(() => { running = null; });
+    return running;
+  };
+
+  const timer = setInterval(() => { void discover(); }, opts.intervalMs ?? DEFAULT_DISCOVERY_INTERVAL_MS);
+  timer.unref?.();
+  void discover();
+
+  return {
+    discover,
+    async close() {
+      closed = true;
+      clearInterval(timer);
+      await running;
+      const entries = [...owned];
+      owned.clear();
+      await Promise.all(entries.map(([name, entry]) => {
+        if (registry.get(name) === entry.queue) registry.removeQueue(name);
+        return release(entry);
+      }));
+    },
+  };
+}
@@ -0,0 +1,186 @@
+import type { Job, Queue } from 'glide-mq';
+import type { RouteContext } from './core';
+import { MAX_PAGE_SIZE, json, safeError } from './http';
+import { shownReason } from './redact';
+import type { Redactor } from './redact';
+import { stripInstanceOpts } from './transfer';
+
+/** Upper bound on dead-lettered jobs read for grouping or one requeue/purge request. */
+export const MAX_DLQ_SCAN = 10000;
+const DLQ_CONCURRENCY = 25;
+const GROUP_SAMPLE_IDS = 5;
+
+export interface DlqFilter {
+  name?: string;
+  failedReason?: string;
+}
+
+export interface DlqGroup {
+  name: string;
+  failedReason: string;
+  count: number;
+  oldest: number | null;
+  newest: number | null;
+  /** A few job ids from the bucket, for inspecting examples. */
+  sampleIds: string[];
+}
+
+export interface DlqJobResult {
+  id: string;
+  status: 'ok' | 'not_found' | 'error';
+  /** Id of the job re-added to the origin queue (requeue only). */
+  newId?: string | null;
+  error?: string;
+}
+
+/** Read up to `limit` dead-lettered jobs, paging past MAX_PAGE_SIZE. Reports whether more were left. */
+async function scanDeadLetters(queue: Queue, limit: number): Promise<{ jobs: Job[]; truncated: boolean }> {
+  const jobs: Job[] = [];
+  for (let start = 0; jobs.length < limit; start += MAX_PAGE_SIZE) {
+    const page = await queue.getDeadLetterJobs(start, start + MAX_PAGE_SIZE - 1);
+    jobs.push(...page.slice(0, MAX_PAGE_SIZE));
+    if (page.length < MAX_PAGE_SIZE) return { jobs: jobs.slice(0, limit), truncated: false };
+  }
+  return { jobs: jobs.slice(0, limit), truncated: true };
+}
+
+function matches(job: Job, filter: DlqFilter, redact: Redactor | null): boolean {
+  if (filter.name != null && job.name !== filter.name) return false;
+  if (filter.failedReason != null && shownReason(job.failedReason, redact) !== filter.failedReason) return false;
+  return true;
+}
+
+/**
+ * Bucket jobs by job name and failure reason, largest bucket first. With `redact`, reasons are
+ * grouped as masked, so a group's reason works as a requeue/purge filter for the same caller.
+ */
+export function groupDeadLetters(jobs: Job[], redact: Redactor | null = null): DlqGroup[] {
+  const groups = new Map<string, DlqGroup>();
+  for (const job of jobs) {
+    const name = job.name ?? '';
+    const failedReason = shownReason(job.failedReason, redact);
+    const key = `${name}\u0000${failedReason}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { name, failedReason, count: 0, oldest: null, newest: null, sampleIds: [] };
+      groups.set(key, group);
+    }
+    group.count++;
+    const ts = job.timestamp;
+    if (typeof ts === 'number') {
+      group.oldest = group.oldest == null ? ts : Math.min(group.oldest, ts);
+      group.newest = group.newest == null ? ts : Math.max(group.newest, ts);
+    }
+    if (group.sampleIds.length < GROUP_SAMPLE_IDS) group.sampleIds.push(String(job.id));
+  }
+  return [...groups.values()].sort((a, b) => b.count - a.count || (b.newest ?? 0) - (a.newest ?? 0));
+}
+
+/** Resolve the dead-lettered jobs a requeue/purge request targets: explicit ids, or everything matching a filter. */
+async function resolveTargets(
+  queue: Queue,
+  body: any,
+  redact: Redactor | null,
+): Promise<{ ids: string[]; jobs: Map<string, Job> } | { error: string }> {
+  let filter: DlqFilter | null = null;
+  let ids: string[] | null = null;
+  if (Array.isArray(body.ids)) {
+    if (!body.ids.every((id: unknown) => typeof id === 'string' || typeof id === 'number')) {
+      return { error: 'ids must be an array of job ids' };
+    }
+    ids = [...new Set(body.ids.map(String))] as string[];
+    if (ids.length > MAX_DLQ_SCAN) {
+      return { error: `At most ${MAX_DLQ_SCAN} ids per request` };
+    }
+  } else if (body.filter && typeof body.filter === 'object') {
+    const { name, failedReason } = body.filter;
+    if (name != null && typeof name !== 'string') return { error: 'filter.name must be a string' };
+    if (failedReason != null && typeof failedReason !== 'string') return { error: 'filter.failedReason must be a string' };
+    filter = { name, failedReason };
+  } else {
+    return { error: 'Provide either ids or filter ({} targets every dead-lettered job)' };
+  }
+
+  const { jobs } = await scanDeadLetters(queue, MAX_DLQ_SCAN);
+  const byId = new Map<string, Job>();
+  for (const job of jobs) {
+    if (filter ? matches(job, filter, redact) : true) byId.set(String(job.id), job);
+  }
+  return { ids: ids ?? [...byId.keys()], jobs: byId };
+}
+
+export function dlqRoutes(ctx: RouteContext): void {
+  const { queueMap } = ctx;
+
+  // --- Dead-lettered jobs grouped by name and failure reason ---
+  ctx.read('/api/queues/:name/dlq/groups', 'job:read', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    try {
+      const { jobs, truncated } = await scanDeadLetters(queue, MAX_DLQ_SCAN);
+      const groups = groupDeadLetters(jobs, await ctx.redactor(req, queue.name));
+      return json(200, { total: jobs.length, truncated, groups });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  const register = (
+    path: string,
+    action: 'dlq:requeue' | 'dlq:purge',
+    apply: (queue: Queue, job: Job) => Promise<Partial<DlqJobResult>>,
+  ) => {
+    ctx.mutation('POST', path, action, async (req) => {
+      const queue = queueMap.get(req.params.name);
+      if (!queue) {
+        return json(404, { error: 'Queue not found' });
+      }
+      try {
+        const targets = await resolveTargets(queue, req.body ?? {}, await ctx.redactor(req, queue.name));
+        if ('error' in targets) {
+          return json(400, { error: targets.error });
+        }
+        const runOne = async (id: string): Promise<DlqJobResult> => {
+          const job = targets.jobs.get(id);
+          if (!job) return { id, status: 'not_found' };
+          try {
+            return { id, status: 'ok', ...await apply(queue, job) };
+          } catch (err) {
+            return { id, status: 'error', error: err instanceof Error ? err.message : 'Internal server error' };
+          }
+        };
+        const results: DlqJobResult[] = [];
+        for (let i = 0; i < targets.ids.length; i += DLQ_CONCURRENCY) {
+          results.push(...await Promise.all(targets.ids.slice(i, i + DLQ_CONCURRENCY).map(runOne)));
+        }
+        const succeeded = results.filter((r) => r.status === 'ok').length;
+        return json(200, { total: results.length, succeeded, failed: results.length - succeeded, results });
+      } catch (err) {
+        return safeError(err);
+      }
+    });
+  };
+
+  // --- Move dead-lettered jobs back onto their origin queue ---
+  // The copy is added before the dead letter is removed, so a failed add leaves the job where it was.
+  // A failed remove after that is reported with the new id, so the caller knows the job now exists twice.
+  register('/api/queues/:name/dlq/requeue', 'dlq:requeue', async (queue, job) => {
+    const added = await queue.add(job.name, job.data, stripInstanceOpts(job.opts as Record<string, unknown>));
+    const newId = added?.id ?? null;
+    try {
+      await job.remove();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Internal server error';
+      return { status: 'error', newId, error: `Requeued as ${newId}, but the dead letter could not be removed: ${message}` };
+    }
+    return { newId };
+  });
+
+  // --- Delete dead-lettered jobs ---
+  register('/api/queues/:name/dlq/purge', 'dlq:purge', async (_queue, job) => {
+    await job.remove();
+    return {};
+  });
+}
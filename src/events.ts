@@ -0,0 +1,201 @@
+import type { Queue, QueueEvents } from 'glide-mq';
+import type { RouteContext } from './core';
+import { json, sse } from './http';
+import { eventPayload } from './rbac';
+
+export const EVENT_NAMES = [
+  'completed', 'failed', 'progress', 'active', 'waiting', 'stalled', 'removed', 'usage', 'suspended', 'budget-exceeded',
+] as const;
+
+/** Events kept for `Last-Event-ID` replay. */
+export const EVENT_REPLAY_SIZE = 1000;
+const JOB_NAME_CACHE_SIZE = 5000;
+const EVENT_HEARTBEAT_MS = 15000;
+
+export interface DashboardEvent {
+  id: string;
+  queue: string;
+  event: string;
+  payload: unknown;
+  /** When the dashboard received it. */
+  timestamp: number;
+}
+
+export interface EventFilter {
+  queues?: Set<string>;
+  events?: Set<string>;
+  names?: Set<string>;
+}
+
+export interface EventHub {
+  subscribe(listener: (event: DashboardEvent) => void): () => void;
+  /**
+   * Buffered events after `lastId`, oldest first. Returns null when `lastId` is from
+   * another process or has already left the buffer, so the client has to resync.
+   */
+  since(lastId: string): DashboardEvent[] | null;
+  /** Every buffered event, oldest first. */
+  recent(): DashboardEvent[];
+  matches(event: DashboardEvent, filter: EventFilter): Promise<boolean>;
+  /** Start forwarding a QueueEvents instance mounted at runtime. */
+  attach(queueEvents: QueueEvents): void;
+  /** Stop forwarding every QueueEvents instance for `queue`. Buffered events stay replayable. */
+  detach(queue: string): void;
+  /** Stop forwarding every attached QueueEvents instance. The instances themselves stay open. */
+  close(): void;
+}
+
+/**
+ * Listen on every QueueEvents instance once and fan events out to SSE clients.
+ * Ids are `<boot>:<seq>` so ids from a previous process are never mistaken for current ones.
+ */
+export function createEventHub(queueEvents: QueueEvents[], queueMap: Map<string, Queue>): EventHub {
+  const boot = Date.now().toString(36);
+  let seq = 0;
+  const buffer: DashboardEvent[] = [];
+  const listeners = new Set<(event: DashboardEvent) => void>();
+  const jobNames = new Map<string, string | null>();
+  const attached = new Map<QueueEvents, [string, (payload: unknown) => void][]>();
+
+  function attach(qe: QueueEvents) {
+    if (attached.has(qe)) return;
+    const handlers = EVENT_NAMES.map((eventName): [string, (payload: unknown) => void] => [eventName, (payload) => {
+      const event: DashboardEvent = { id: `${boot}:${++seq}`, queue: qe.name, event: eventName, payload, timestamp: Date.now() };
+      buffer.push(event);
+      if (buffer.length > EVENT_REPLAY_SIZE) buffer.shift();
+      for (const listener of listeners) listener(event);
+    }]);
+    for (const [eventName, handler] of handlers) qe.on(eventName, handler);
+    attached.set(qe, handlers);
+  }
+
+  for (const qe of queueEvents) attach(qe);
+
+  async function jobName(queue: string, jobId: string): Promise<string | null> {
+    const key = `${queue}\u0000${jobId}`;
+    if (jobNames.has(key)) return jobNames.get(key)!;
+    let name: string | null = null;
+    try {
+      name = (await queueMap.get(queue)?.getJob(jobId))?.name ?? null;
+    } catch {
+      name = null;
+    }
+    jobNames.set(key, name);
+    if (jobNames.size > JOB_NAME_CACHE_SIZE) jobNames.delete(jobNames.keys().next().value!);
+    return name;
+  }
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    since(lastId) {
+      const [lastBoot, lastSeq] = lastId.split(':');
+      const n = Number(lastSeq);
+      if (lastBoot !== boot || !Number.isInteger(n) || n > seq) return null;
+      const oldest = buffer.length ? Number(buffer[0].id.split(':')[1]) : seq + 1;
+      if (n < oldest - 1) return null;
+      return buffer.filter((e) => Number(e.id.split(':')[1]) > n);
+    },
+    recent() {
+      return [...buffer];
+    },
+    async matches(event, filter) {
+      if (filter.queues && !filter.queues.has(event.queue)) return false;
+      if (filter.events && !filter.events.has(event.event)) return false;
+      if (filter.names) {
+        const jobId = (event.payload as { jobId?: unknown } | null)?.jobId;
+        if (jobId == null) return false;
+        const name = await jobName(event.queue, String(jobId));
+        if (name == null || !filter.names.has(name)) return false;
+      }
+      return true;
+    },
+    attach,
+    detach(queue) {
+      for (const [qe, handlers] of attached) {
+        if (qe.name !== queue) continue;
+        for (const [eventName, handler] of handlers) qe.off(eventName, handler);
+        attached.delete(qe);
+      }
+    },
+    close() {
+      for (const [qe, handlers] of attached) {
+        for (const [eventName, handler] of handlers) qe.off(eventName, handler);
+      }
+      attached.clear();
+      listeners.clear();
+    },
+  };
+}
+
+function parseList(value: string | undefined): Set<string> | undefined {
+  if (!value) return undefined;
+  const items = value.split(',').map((s) => s.trim()).filter(Boolean);
+  return items.length ? new Set(items) : undefined;
+}
+
+export function eventRoutes(ctx: RouteContext, hub: EventHub): void {
+  const { queueMap } = ctx;
+
+  // --- Live queue events, filtered per client and resumable with Last-Event-ID ---
+  ctx.read('/api/events', 'queue:read', async (req) => {
+    const filter: EventFilter = {
+      queues: parseList(req.query.queue),
+      events: parseList(req.query.event),
+      names: parseList(req.query.name),
+    };
+    for (const name of filter.queues ?? []) {
+      if (!queueMap.has(name)) {
+        return json(404, { error: 'Queue not found' });
+      }
+    }
+    const caller = await ctx.access(req);
+    if ([...filter.queues ?? []].some((name) => !caller.can('queue:read', name))) {
+      return json(403, { error: 'Unauthorized' });
+    }
+    for (const name of filter.events ?? []) {
+      if (!(EVENT_NAMES as readonly string[]).includes(name)) {
+        return json(400, { error: `Invalid event: ${name}. Must be one of: ${EVENT_NAMES.join(', ')}` });
+      }
+    }
+    // EventSource resends the last id as a header; ?lastEventId covers clients that reconnect by hand.
+    const lastId = req.header('last-event-id') || req.query.lastEventId;
+
+    return sse((sink) => {
+      sink.write('\n');
+
+      // Deliver through one chain so name lookups can't reorder events.
+      let chain: Promise<void> = Promise.resolve();
+      const deliver = (event: DashboardEvent) => {
+        chain = chain.then(async () => {
+          if (sink.closed || !caller.can('queue:read', event.queue) || !(await hub.matches(event, filter))) return;
+          let payload = eventPayload(caller, event.queue, event.payload);
+          const redact = await ctx.redactor(req, event.queue);
+          if (redact && payload && typeof payload === 'object') payload = redact(payload as Record<string, unknown>);
+          const data = JSON.stringify({ queue: event.queue, event: event.event, payload });
+          sink.write(`id: ${event.id}\ndata: ${data}\n\n`);
+        });
+      };
+
+      // Read the backlog and subscribe in the same tick so nothing falls between them.
+      const backlog = lastId ? hub.since(lastId) : [];
+      const unsubscribe = hub.subscribe(deliver);
+      if (backlog === null) {
+        sink.write('event: reset\ndata: {}\n\n');
+      } else {
+        for (const event of backlog) deliver(event);
+      }
+
+      const heartbeat = setInterval(() => {
+        sink.write(': heartbeat\n\n');
+      }, EVENT_HEARTBEAT_MS);
+
+      sink.onClose(() => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+    });
+  });
+}
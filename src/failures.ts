@@ -0,0 +1,164 @@
+import { createHash } from 'crypto';
+import type { Job, Queue } from 'glide-mq';
+import type { RouteContext } from './core';
+import { MAX_PAGE_SIZE, json, safeError } from './http';
+import type { DashboardRequest } from './http';
+import type { Redactor } from './redact';
+
+/** Upper bound on failed jobs read for one fingerprint report. */
+export const MAX_FAILURE_SCAN = 5000;
+const FAILURE_CONCURRENCY = 25;
+const EXAMPLE_IDS = 5;
+const MAX_GROUP_NAMES = 20;
+/** Stack frames that count towards the fingerprint; deeper frames are mostly framework noise. */
+const FINGERPRINT_FRAMES = 3;
+
+export interface FailureGroup {
+  fingerprint: string;
+  /** The normalized failure reason shared by every job in the group. */
+  message: string;
+  /** The normalized top stack frames, when the jobs carry a stack trace. */
+  frames: string[];
+  count: number;
+  names: string[];
+  firstSeen: number | null;
+  lastSeen: number | null;
+  exampleIds: string[];
+}
+
+// Order matters: timestamps and ids go before the bare-number rule eats their digits.
+const NORMALIZERS: [RegExp, string][] = [
+  [/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?/g, '<time>'],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<id>'],
+  [/\b(0x)?(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi, '<id>'],
+  [/\d+(\.\d+)?/g, '<n>'],
+  [/\s+/g, ' '],
+];
+
+/** Strip the parts of a failure message that differ between otherwise identical failures. */
+export function normalizeFailure(text: string): string {
+  let result = text;
+  for (const [pattern, replacement] of NORMALIZERS) result = result.replace(pattern, replacement);
+  return result.trim();
+}
+
+function stackFrames(stack: unknown): string[] {
+  const text = Array.isArray(stack) ? stack[stack.length - 1] : stack;
+  if (typeof text !== 'string') return [];
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith('at '))
+    .slice(0, FINGERPRINT_FRAMES)
+    .map(normalizeFailure);
+}
+
+/**
+ * Fingerprint a failed job by its normalized reason and top stack frames. With `redact`, both are
+ * masked before normalizing, so a caller's groups and fingerprints only reflect what they may see.
+ */
+export function fingerprintJob(job: Job, redact?: Redactor | null): { fingerprint: string; message: string; frames: string[] } {
+  const raw = { failedReason: job.failedReason ?? '', stacktrace: (job as any).stacktrace };
+  const shown = redact ? redact(raw) : raw;
+  const message = normalizeFailure(String(shown.failedReason ?? ''));
+  const frames = stackFrames(shown.stacktrace);
+  const fingerprint = createHash('sha1').update([message, ...frames].join('\n')).digest('hex').slice(0, 12);
+  return { fingerprint, message, frames };
+}
+
+/**
+ * Read up to MAX_FAILURE_SCAN failed jobs, newest first, paging past MAX_PAGE_SIZE. `excludeData`
+ * skips the payloads when only the failure details are needed.
+ */
+async function scanFailed(queue: Queue, opts?: { excludeData: true }): Promise<{ jobs: Job[]; truncated: boolean }> {
+  const jobs: Job[] = [];
+  for (let start = 0; jobs.length < MAX_FAILURE_SCAN; start += MAX_PAGE_SIZE) {
+    const page = opts
+      ? await queue.getJobs('failed', start, start + MAX_PAGE_SIZE - 1, opts)
+      : await queue.getJobs('failed', start, start + MAX_PAGE_SIZE - 1);
+    jobs.push(...page.slice(0, MAX_PAGE_SIZE));
+    if (page.length < MAX_PAGE_SIZE) return { jobs, truncated: false };
+  }
+  return { jobs: jobs.slice(0, MAX_FAILURE_SCAN), truncated: true };
+}
+
+export function groupFailures(jobs: Job[], redact?: Redactor | null): FailureGroup[] {
+  const groups = new Map<string, FailureGroup>();
+  for (const job of jobs) {
+    const { fingerprint, message, frames } = fingerprintJob(job, redact);
+    let group = groups.get(fingerprint);
+    if (!group) {
+      group = { fingerprint, message, frames, count: 0, names: [], firstSeen: null, lastSeen: null, exampleIds: [] };
+      groups.set(fingerprint, group);
+    }
+    group.count++;
+    if (job.name && !group.names.includes(job.name) && group.names.length < MAX_GROUP_NAMES) group.names.push(job.name);
+    const seen = job.finishedOn ?? job.timestamp;
+    if (typeof seen === 'number') {
+      group.firstSeen = group.firstSeen == null ? seen : Math.min(group.firstSeen, seen);
+      group.lastSeen = group.lastSeen == null ? seen : Math.max(group.lastSeen, seen);
+    }
+    if (group.exampleIds.length < EXAMPLE_IDS) group.exampleIds.push(String(job.id));
+  }
+  return [...groups.values()].sort((a, b) => b.count - a.count || (b.lastSeen ?? 0) - (a.lastSeen ?? 0));
+}
+
+export function failureRoutes(ctx: RouteContext): void {
+  const { queueMap } = ctx;
+
+  // Fingerprints are taken as the caller sees the failures, matching the groups they were shown.
+  const groupJobs = async (req: DashboardRequest, queue: Queue, fingerprint: string) => {
+    const { jobs } = await scanFailed(queue);
+    const redact = await ctx.redactor(req, queue.name);
+    return jobs.filter((job) => fingerprintJob(job, redact).fingerprint === fingerprint);
+  };
+
+  // --- Failed jobs grouped by fingerprint ---
+  ctx.read('/api/queues/:name/failures', 'job:read', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    try {
+      const { jobs, truncated } = await scanFailed(queue, { excludeData: true });
+      const groups = groupFailures(jobs, await ctx.redactor(req, queue.name));
+      return json(200, { scanned: jobs.length, truncated, groups });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Failed jobs in one fingerprint group ---
+  ctx.read('/api/queues/:name/failures/:fingerprint', 'job:read', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    try {
+      const jobs = await groupJobs(req, queue, req.params.fingerprint);
+      const view = await ctx.jobView(req, queue.name);
+      return json(200, jobs.slice(0, MAX_PAGE_SIZE).map((j) => ({ ...view(j), state: 'failed' })));
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Retry every failed job in one fingerprint group ---
+  ctx.mutation('POST', '/api/queues/:name/failures/:fingerprint/retry', 'job:retry', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    try {
+      const jobs = await groupJobs(req, queue, req.params.fingerprint);
+      let succeeded = 0;
+      for (let i = 0; i < jobs.length; i += FAILURE_CONCURRENCY) {
+        const settled = await Promise.allSettled(jobs.slice(i, i + FAILURE_CONCURRENCY).map((job) => job.retry()));
+        succeeded += settled.filter((s) => s.status === 'fulfilled').length;
+      }
+      return json(200, { total: jobs.length, succeeded, failed: jobs.length - succeeded });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+}
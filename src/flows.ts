@@ -0,0 +1,230 @@
+import type { Job, Queue } from 'glide-mq';
+import type { RouteContext } from './core';
+import { VALID_STATES, json, safeError } from './http';
+import { shownReason } from './redact';
+import type { Redactor } from './redact';
+
+/** Jobs read per queue and state when looking for children. Trees beyond it are reported as partial. */
+export const MAX_FLOW_SCAN = 1000;
+/** Stop walking up parent links after this many hops. */
+const MAX_FLOW_DEPTH = 50;
+/** How long a queue's scan for child jobs is reused by later tree requests. */
+export const FLOW_INDEX_TTL_MS = 5000;
+
+export interface FlowTotals {
+  jobs: number;
+  /** Jobs in the subtree that have not completed yet. */
+  pending: number;
+  tokens: number;
+  cost: number;
+}
+
+export interface FlowNode {
+  id: string;
+  queue: string;
+  name: string;
+  state: string;
+  timestamp: number;
+  processedOn?: number;
+  finishedOn?: number;
+  /** finishedOn - processedOn, or time spent so far for active jobs. */
+  duration: number | null;
+  attemptsMade: number;
+  failedReason?: string;
+  usage?: unknown;
+  /** True when this branch still has unfinished work and its parent is waiting on it. */
+  blocking: boolean;
+  subtree: FlowTotals;
+  children: FlowNode[];
+}
+
+function sumNumbers(obj: unknown): number {
+  if (!obj || typeof obj !== 'object') return 0;
+  let total = 0;
+  for (const value of Object.values(obj)) if (typeof value === 'number') total += value;
+  return total;
+}
+
+/** Token and cost totals of a single job's usage, tolerant of the shapes glide-mq has used. */
+export function usageTotals(usage: any): { tokens: number; cost: number } {
+  if (!usage || typeof usage !== 'object') return { tokens: 0, cost: 0 };
+  const tokens = typeof usage.totalTokens === 'number'
+    ? usage.totalTokens
+    : usage.tokens ? sumNumbers(usage.tokens) : sumNumbers(
+      Object.fromEntries(Object.entries(usage).filter(([k]) => k.endsWith('tokens'))),
+    );
+  const cost = typeof usage.totalCost === 'number'
+    ? usage.totalCost
+    : typeof usage.cost === 'number' ? usage.cost : 0;
+  return { tokens, cost };
+}
+
+interface Located {
+  job: Job;
+  queue: string;
+  state: string;
+}
+
+const keyOf = (queue: string, id: unknown) => `${queue}\u0000${id}`;
+
+interface QueueScan {
+  /** Scanned jobs that have a parent. */
+  children: Located[];
+  partial: boolean;
+}
+
+/** Read up to MAX_FLOW_SCAN jobs per state from one queue, without payloads, keeping those with a parent. */
+async function scanChildren(queue: Queue): Promise<QueueScan> {
+  const seen = new Set<string>();
+  const children: Located[] = [];
+  let partial = false;
+  for (const state of VALID_STATES) {
+    const jobs = await queue.getJobs(state, 0, MAX_FLOW_SCAN - 1, { excludeData: true });
+    if (jobs.length >= MAX_FLOW_SCAN) partial = true;
+    for (const job of jobs) {
+      const id = String(job.id);
+      if ((job as any).parentId == null || seen.has(id)) continue;
+      seen.add(id);
+      children.push({ job, queue: queue.name, state });
+    }
+  }
+  return { children, partial };
+}
+
+/** Index scanned jobs by their parent, across the given queues. */
+async function indexChildren(
+  queues: Queue[],
+  scan: (queue: Queue) => Promise<QueueScan>,
+): Promise<{ byParent: Map<string, Located[]>; partial: boolean }> {
+  const byParent = new Map<string, Located[]>();
+  let partial = false;
+  for (const result of await Promise.all(queues.map(scan))) {
+    if (result.partial) partial = true;
+    for (const located of result.children) {
+      const { job } = located;
+      const parentKey = keyOf((job as any).parentQueue ?? located.queue, (job as any).parentId);
+      const list = byParent.get(parentKey) ?? [];
+      list.push(located);
+      byParent.set(parentKey, list);
+    }
+  }
+  return { byParent, partial };
+}
+
+function buildNode(
+  located: Located,
+  byParent: Map<string, Located[]>,
+  visited: Set<string>,
+  now: number,
+  showUsage: (queue: string) => boolean,
+  redactors: Map<string, Redactor | null>,
+): FlowNode {
+  const { job, queue, state } = located;
+  const key = keyOf(queue, job.id);
+  visited.add(key);
+  // Usage and cost of queues the caller can't read usage on count towards nothing they see.
+  const usage = showUsage(queue) ? (job as any).usage : undefined;
+  const own = usageTotals(usage);
+  const subtree: FlowTotals = {
+    jobs: 1,
+    pending: state === 'completed' ? 0 : 1,
+    tokens: own.tokens,
+    cost: own.cost,
+  };
+
+  const kids = [...(byParent.get(key) ?? [])].sort((x, y) =>
+    (x.job.timestamp - y.job.timestamp) || String(x.job.id).localeCompare(String(y.job.id)));
+  const children: FlowNode[] = [];
+  for (const child of kids) {
+    if (visited.has(keyOf(child.queue, child.job.id))) continue;
+    const node = buildNode(child, byParent, visited, now, showUsage, redactors);
+    children.push(node);
+    subtree.jobs += node.subtree.jobs;
+    subtree.pending += node.subtree.pending;
+    subtree.tokens += node.subtree.tokens;
+    subtree.cost += node.subtree.cost;
+  }
+  // A child only blocks while its parent is still waiting for it.
+  for (const child of children) child.blocking = state !== 'completed' && child.subtree.pending > 0;
+
+  let duration: number | null = null;
+  if (job.processedOn) duration = (job.finishedOn ?? (state === 'active' ? now : job.processedOn)) - job.processedOn;
+
+  const node: FlowNode = {
+    id: String(job.id),
+    queue,
+    name: job.name,
+    state,
+    timestamp: job.timestamp,
+    duration,
+    attemptsMade: job.attemptsMade ?? 0,
+    blocking: false,
+    subtree,
+    children,
+  };
+  if (job.processedOn) node.processedOn = job.processedOn;
+  if (job.finishedOn) node.finishedOn = job.finishedOn;
+  if (job.failedReason) node.failedReason = shownReason(job.failedReason, redactors.get(queue) ?? null);
+  if (usage) node.usage = usage;
+  return node;
+}
+
+export function flowRoutes(ctx: RouteContext): void {
+  const { queues, queueMap } = ctx;
+
+  // Opening a flow tree and its neighbours in quick succession shares one scan per queue.
+  const scans = new WeakMap<Queue, { expires: number; scan: Promise<QueueScan> }>();
+  const scanCached = (queue: Queue): Promise<QueueScan> => {
+    const now = Date.now();
+    const hit = scans.get(queue);
+    if (hit && hit.expires > now) return hit.scan;
+    const scan = scanChildren(queue);
+    const entry = { expires: now + FLOW_INDEX_TTL_MS, scan };
+    scans.set(queue, entry);
+    scan.catch(() => {
+      if (scans.get(queue) === entry) scans.delete(queue);
+    });
+    return scan;
+  };
+
+  // --- Parent/child tree for the flow a job belongs to ---
+  ctx.read('/api/queues/:name/flows/:id/tree', 'job:read', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    try {
+      const job = await queue.getJob(req.params.id);
+      if (!job) {
+        return json(404, { error: 'Job not found' });
+      }
+
+      // Jobs on queues the caller can't read are left out of the tree, along with their subtrees.
+      const caller = await ctx.access(req);
+      const readable = (name: string) => caller.can('job:read', name);
+
+      // Walk up to the topmost ancestor we can reach on a mounted, readable queue.
+      let root: Located = { job, queue: queue.name, state: await job.getState() };
+      let rootReached = true;
+      for (let depth = 0; depth < MAX_FLOW_DEPTH; depth++) {
+        const parentId = (root.job as any).parentId;
+        if (parentId == null) break;
+        const parentQueue = queueMap.get((root.job as any).parentQueue ?? root.queue);
+        const parent = parentQueue && readable(parentQueue.name) ? await parentQueue.getJob(String(parentId)) : null;
+        if (!parentQueue || !parent) {
+          rootReached = false;
+          break;
+        }
+        root = { job: parent, queue: parentQueue.name, state: await parent.getState() };
+      }
+
+      const mounted = queues.filter((q) => readable(q.name));
+      const { byParent, partial } = await indexChildren(mounted, scanCached);
+      const redactors = new Map(await Promise.all(mounted.map(async (q) => [q.name, await ctx.redactor(req, q.name)] as const)));
+      const tree = buildNode(root, byParent, new Set(), Date.now(), (name) => caller.can('usage:read', name), redactors);
+      return json(200, { root: tree, rootReached, partial });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+}
@@ -0,0 +1,43 @@
+import type { ActionString, ReadAction } from './actions';
+import type { DashboardOptions } from './core';
+import { json } from './http';
+import type { DashboardRequest, DashboardResponse } from './http';
+import { resolveAccess } from './rbac';
+
+/** Returns a 403 response when the mutation is not allowed, null otherwise. */
+export async function guardMutation(
+  req: DashboardRequest,
+  opts: DashboardOptions | undefined,
+  action: ActionString,
+): Promise<DashboardResponse | null> {
+  if (opts?.readOnly) {
+    return json(403, { error: 'Dashboard is in read-only mode' });
+  }
+  if (opts?.rbac) {
+    const access = await resolveAccess(req, opts);
+    if (!access.can(action, req.params.name ?? null)) {
+      return json(403, { error: 'Unauthorized' });
+    }
+  }
+  if (opts?.authorize) {
+    const allowed = await opts.authorize(req.raw, action);
+    if (!allowed) {
+      return json(403, { error: 'Unauthorized' });
+    }
+  }
+  return null;
+}
+
+/** Returns a 403 response when RBAC denies the read, null otherwise. `authorize` only covers mutations. */
+export async function guardRead(
+  req: DashboardRequest,
+  opts: DashboardOptions | undefined,
+  action: ReadAction,
+): Promise<DashboardResponse | null> {
+  if (!opts?.rbac) return null;
+  const access = await resolveAccess(req, opts);
+  if (!access.can(action, req.params.name ?? null)) {
+    return json(403, { error: 'Unauthorized' });
+  }
+  return null;
+}
@@ -0,0 +1,144 @@
+import type { Queue } from 'glide-mq';
+import type { RouteContext } from './core';
+import { json, safeError } from './http';
+
+export interface CountSample {
+  timestamp: number;
+  queue: string;
+  counts: Record<string, number>;
+}
+
+/** Where backlog samples are kept. `query` returns samples oldest first. */
+export interface HistoryStore {
+  record(sample: CountSample): void | Promise<void>;
+  query(queue: string, since: number, until: number): CountSample[] | Promise<CountSample[]>;
+}
+
+export interface HistoryOptions {
+  /** How often to snapshot `getJobCounts` for every mounted queue. Default 60 seconds. */
+  intervalMs?: number;
+  /** Defaults to `memoryHistoryStore()`. */
+  store?: HistoryStore;
+}
+
+export interface HistorySampler {
+  /** Take one snapshot of every queue now. Runs on `intervalMs` on its own. */
+  sample(): Promise<void>;
+  readonly intervalMs: number;
+  readonly store: HistoryStore;
+  stop(): void;
+}
+
+const DEFAULT_HISTORY_INTERVAL_MS = 60 * 1000;
+const DEFAULT_HISTORY_RANGE_MS = 60 * 60 * 1000;
+const DEFAULT_HISTORY_POINTS = 120;
+const MAX_HISTORY_POINTS = 1000;
+
+/** Keep the last `capacity` samples per queue in memory (24h at the default interval). Lost on restart. */
+export function memoryHistoryStore(capacity = 1440): HistoryStore {
+  const byQueue = new Map<string, CountSample[]>();
+  return {
+    record(sample) {
+      const samples = byQueue.get(sample.queue) ?? [];
+      samples.push(sample);
+      if (samples.length > capacity) samples.splice(0, samples.length - capacity);
+      byQueue.set(sample.queue, samples);
+    },
+    query(queue, since, until) {
+      return (byQueue.get(queue) ?? []).filter((s) => s.timestamp >= since && s.timestamp <= until);
+    },
+  };
+}
+
+export function createHistorySampler(queues: Queue[], opts: HistoryOptions): HistorySampler {
+  const intervalMs = opts.intervalMs ?? DEFAULT_HISTORY_INTERVAL_MS;
+  const store = opts.store ?? memoryHistoryStore();
+
+  async function sample() {
+    const timestamp = Date.now();
+    await Promise.all(queues.map(async (queue) => {
+      try {
+        const counts = await queue.getJobCounts() as Record<string, number>;
+        await store.record({ timestamp, queue: queue.name, counts: { ...counts } });
+      } catch {
+        // A queue that can't be read leaves a gap rather than stopping the sampler.
+      }
+    }));
+  }
+
+  const timer = setInterval(() => { void sample(); }, intervalMs);
+  timer.unref?.();
+  void sample();
+
+  return {
+    sample,
+    intervalMs,
+    store,
+    stop() {
+      clearInterval(timer);
+    },
+  };
+}
+
+/**
+ * Reduce `samples` to at most `points` buckets across [since, until], keeping the
+ * maximum of each state per bucket so short spikes stay visible.
+ */
+export function downsample(samples: CountSample[], since: number, until: number, points: number): CountSample[] {
+  if (samples.length <= points) return samples;
+  const width = Math.max(1, (until - since) / points);
+  const buckets = new Map<number, CountSample>();
+  for (const s of samples) {
+    const index = Math.min(points - 1, Math.floor((s.timestamp - since) / width));
+    const bucket = buckets.get(index);
+    if (!bucket) {
+      buckets.set(index, { timestamp: s.timestamp, queue: s.queue, counts: { ...s.counts } });
+      continue;
+    }
+    bucket.timestamp = s.timestamp;
+    for (const [state, count] of Object.entries(s.counts)) {
+      bucket.counts[state] = Math.max(bucket.counts[state] ?? 0, count);
+    }
+  }
+  return [...buckets.keys()].sort((a, b) => a - b).map((k) => buckets.get(k)!);
+}
+
+export function historyRoutes(ctx: RouteContext, sampler: HistorySampler | null): void {
+  const { queueMap } = ctx;
+
+  // --- Sampled job counts over time ---
+  ctx.read('/api/queues/:name/history', 'queue:read', async (req) => {
+    if (!sampler) {
+      return json(404, { error: 'Backlog history is not enabled' });
+    }
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const now = Date.now();
+    const params: Record<string, number> = {};
+    for (const key of ['since', 'until', 'points'] as const) {
+      const value = req.query[key];
+      if (value == null || value === '') continue;
+      if (!/^\d+$/.test(value)) {
+        return json(400, { error: `${key} must be a non-negative integer` });
+      }
+      params[key] = parseInt(value, 10);
+    }
+    const until = params.until ?? now;
+    const since = params.since ?? until - DEFAULT_HISTORY_RANGE_MS;
+    const points = Math.min(Math.max(params.points ?? DEFAULT_HISTORY_POINTS, 1), MAX_HISTORY_POINTS);
+    try {
+      const samples = await sampler.store.query(queue.name, since, until);
+      return json(200, {
+        queue: queue.name,
+        intervalMs: sampler.intervalMs,
+        since,
+        until,
+        samples: downsample(samples, since, until, points).map(({ timestamp, counts }) => ({ timestamp, counts })),
+      });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+}
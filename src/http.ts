@@ -0,0 +1,86 @@
+import type { Job } from 'glide-mq';
+
+export const MAX_PAGE_SIZE = 200;
+/** Largest JSON body the adapters accept, Express's own default. */
+export const MAX_BODY_BYTES = 100 * 1024;
+/** Largest JSON body for job imports, which carry whole export files. */
+export const MAX_IMPORT_BODY_BYTES = 10 * 1024 * 1024;
+
+/** Transport-neutral view of an incoming request, built by each adapter. */
+export interface DashboardRequest<TReq = any> {
+  method: string;
+  params: Record<string, string>;
+  query: Record<string, string | undefined>;
+  body: any;
+  header(name: string): string | undefined;
+  /** The framework-native request, passed through to user callbacks. */
+  raw: TReq;
+}
+
+/** Writable side of a streaming response (SSE or chunked text). */
+export interface DashboardStreamSink {
+  write(chunk: string): void;
+  end(): void;
+  /** Register a callback for when the client disconnects or the stream ends. */
+  onClose(listener: () => void): void;
+  readonly closed: boolean;
+}
+
+export type DashboardResponse =
+  | { type: 'json'; status: number; body: unknown; headers?: Record<string, string> }
+  | { type: 'text'; status: number; body: string; headers: Record<string, string> }
+  | {
+      type: 'stream';
+      status: number;
+      headers: Record<string, string>;
+      start: (sink: DashboardStreamSink) => void | Promise<void>;
+    };
+
+export function json(status: number, body: unknown): DashboardResponse {
+  return { type: 'json', status, body };
+}
+
+export function safeError(err: unknown, status = 500): DashboardResponse {
+  const message = err instanceof Error ? err.message : 'Internal server error';
+  return json(status, { error: message });
+}
+
+export const SSE_HEADERS: Record<string, string> = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  Connection: 'keep-alive',
+};
+
+export function sse(start: (sink: DashboardStreamSink) => void | Promise<void>): DashboardResponse {
+  return { type: 'stream', status: 200, headers: { ...SSE_HEADERS }, start };
+}
+
+export function serializeJob(j: Job): Record<string, unknown> {
+  const result: Record<string, unknown> = {
+    id: j.id,
+    name: j.name,
+    data: j.data,
+    opts: j.opts,
+    progress: j.progress,
+    attemptsMade: j.attemptsMade,
+    failedReason: j.failedReason,
+    returnvalue: j.returnvalue,
+    timestamp: j.timestamp,
+    processedOn: j.processedOn,
+    finishedOn: j.finishedOn,
+  };
+  if ((j as any).parentId != null) result.parentId = (j as any).parentId;
+  if ((j as any).parentQueue != null) result.parentQueue = (j as any).parentQueue;
+  if ((j as any).orderingKey != null) result.orderingKey = (j as any).orderingKey;
+  if ((j as any).cost != null) result.cost = (j as any).cost;
+  if ((j as any).schedulerName != null) result.schedulerName = (j as any).schedulerName;
+  if ((j as any).usage) result.usage = (j as any).usage;
+  if ((j as any).signals?.length) result.signals = (j as any).signals;
+  if ((j as any).budgetKey) result.budgetKey = (j as any).budgetKey;
+  if ((j as any).fallbackIndex) result.fallbackIndex = (j as any).fallbackIndex;
+  if ((j as any).tpmTokens != null) result.tpmTokens = (j as any).tpmTokens;
+  return result;
+}
+
+export const VALID_STATES = ['waiting', 'active', 'delayed', 'completed', 'failed'] as const;
+export type JobState = (typeof VALID_STATES)[number];
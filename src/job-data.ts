@@ -0,0 +1,108 @@
+import type { RouteContext } from './core';
+import { json, safeError } from './http';
+import { validateJobData } from './schema';
+
+const BACKOFF_TYPES = ['fixed', 'exponential'];
+
+/** Check the add-job `opts` subset the dashboard exposes. Returns the cleaned opts or an error message. */
+export function parseJobOpts(raw: unknown): { opts: Record<string, unknown> } | { error: string } {
+  if (raw == null) return { opts: {} };
+  if (typeof raw !== 'object' || Array.isArray(raw)) return { error: 'opts must be an object' };
+  const input = raw as Record<string, unknown>;
+  const opts: Record<string, unknown> = {};
+  for (const key of ['delay', 'priority', 'attempts'] as const) {
+    const value = input[key];
+    if (value == null) continue;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      return { error: `opts.${key} must be a non-negative integer` };
+    }
+    opts[key] = value;
+  }
+  const backoff = input.backoff;
+  if (backoff != null) {
+    if (typeof backoff === 'number') {
+      if (!Number.isInteger(backoff) || backoff < 0) return { error: 'opts.backoff must be a non-negative integer (ms)' };
+      opts.backoff = { type: 'fixed', delay: backoff };
+    } else if (typeof backoff === 'object') {
+      const { type, delay } = backoff as Record<string, unknown>;
+      if (typeof type !== 'string' || !BACKOFF_TYPES.includes(type)) {
+        return { error: `opts.backoff.type must be one of: ${BACKOFF_TYPES.join(', ')}` };
+      }
+      if (typeof delay !== 'number' || !Number.isInteger(delay) || delay < 0) {
+        return { error: 'opts.backoff.delay must be a non-negative integer (ms)' };
+      }
+      opts.backoff = { type, delay };
+    } else {
+      return { error: 'opts.backoff must be a number or { type, delay }' };
+    }
+  }
+  return { opts };
+}
+
+export function jobDataRoutes(ctx: RouteContext): void {
+  const { queueMap, opts } = ctx;
+  const schemaFor = (queue: string) => opts?.jobSchemas?.[queue];
+
+  // --- JSON Schema the queue validates job data against, if any ---
+  ctx.read('/api/queues/:name/schema', 'queue:read', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const schema = schemaFor(queue.name);
+    // Custom validator functions can't be shown, only reported as present.
+    return json(200, { validated: !!schema, schema: typeof schema === 'object' ? schema : null });
+  });
+
+  // --- Add a job ---
+  ctx.mutation('POST', '/api/queues/:name/jobs', 'job:add', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const { name, data } = req.body ?? {};
+    if (!name || typeof name !== 'string') {
+      return json(400, { error: 'name is required and must be a string' });
+    }
+    const parsed = parseJobOpts(req.body?.opts);
+    if ('error' in parsed) {
+      return json(400, { error: parsed.error });
+    }
+    try {
+      const errors = await validateJobData(schemaFor(queue.name), data ?? {});
+      if (errors) {
+        return json(400, { error: 'Job data does not match the queue schema', details: errors });
+      }
+      const job = await queue.add(name, data ?? {}, parsed.opts);
+      return json(200, { status: 'ok', id: job?.id ?? null });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Replace a job's data ---
+  ctx.mutation('POST', '/api/queues/:name/jobs/:id/data', 'job:updateData', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    if (!req.body || typeof req.body !== 'object' || !('data' in req.body)) {
+      return json(400, { error: 'data is required' });
+    }
+    const { data } = req.body;
+    try {
+      const errors = await validateJobData(schemaFor(queue.name), data);
+      if (errors) {
+        return json(400, { error: 'Job data does not match the queue schema', details: errors });
+      }
+      const job = await queue.getJob(req.params.id);
+      if (!job) {
+        return json(404, { error: 'Job not found' });
+      }
+      await job.updateData(data);
+      return json(200, { status: 'ok' });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+}
@@ -0,0 +1,165 @@
+import type { Job, Queue } from 'glide-mq';
+import type { RouteContext } from './core';
+import { MAX_PAGE_SIZE, VALID_STATES, json, safeError } from './http';
+import type { JobState } from './http';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/** One page of `GET /api/queues/:name/jobs`. */
+export interface JobListPage {
+  items: Record<string, unknown>[];
+  /** Pass back as `cursor` for the next page; null when every listed state is exhausted. */
+  nextCursor: string | null;
+  /** Job count of every state, whichever states were listed. */
+  totals: Record<JobState, number>;
+}
+
+/** How far into each state's list the previous pages read. States that ran out are left out. */
+type Offsets = Partial<Record<JobState, number>>;
+
+export function encodeCursor(offsets: Offsets): string {
+  return Buffer.from(JSON.stringify(offsets)).toString('base64url');
+}
+
+/** Offsets of a cursor from `encodeCursor`, or null when it is malformed or names a state outside `states`. */
+export function decodeCursor(cursor: string, states: readonly JobState[]): Offsets | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+  const offsets: Offsets = {};
+  for (const [state, offset] of Object.entries(parsed)) {
+    if (!states.includes(state as JobState) || !Number.isSafeInteger(offset) || (offset as number) < 0) return null;
+    offsets[state as JobState] = offset as number;
+  }
+  return offsets;
+}
+
+/**
+ * Read `limit` jobs starting at `offsets`, newest first across states. Each state's own order is
+ * kept and only its heads are compared, so a page costs one read of `limit` jobs per state however
+ * deep it is, and consecutive pages neither repeat nor skip jobs that stay in their state.
+ */
+export async function readJobPage(
+  queue: Queue,
+  offsets: Offsets,
+  limit: number,
+  opts?: { excludeData: true },
+): Promise<{ jobs: { job: Job; state: JobState }[]; next: Offsets | null }> {
+  const states = VALID_STATES.filter((s) => offsets[s] !== undefined);
+  const buffers = await Promise.all(states.map(async (state) => {
+    const start = offsets[state]!;
+    const page = opts
+      ? await queue.getJobs(state, start, start + limit - 1, opts)
+      : await queue.getJobs(state, start, start + limit - 1);
+    return { state, start, page: page.slice(0, limit), taken: 0 };
+  }));
+  const jobs: { job: Job; state: JobState }[] = [];
+  while (jobs.length < limit) {
+    let pick: (typeof buffers)[number] | null = null;
+    for (const b of buffers) {
+      if (b.taken >= b.page.length) continue;
+      if (!pick || (b.page[b.taken].timestamp ?? 0) > (pick.page[pick.taken].timestamp ?? 0)) pick = b;
+    }
+    if (!pick) break;
+    jobs.push({ job: pick.page[pick.taken], state: pick.state });
+    pick.taken++;
+  }
+  const next: Offsets = {};
+  for (const b of buffers) {
+    // A short read that was used up means the state has nothing further.
+    if (b.page.length < limit && b.taken === b.page.length) continue;
+    next[b.state] = b.start + b.taken;
+  }
+  return { jobs, next: Object.keys(next).length ? next : null };
+}
+
+export function jobListRoutes(ctx: RouteContext): void {
+  const { queueMap } = ctx;
+
+  // --- Jobs for a queue: cursor pages merged across states, or the plain array with format=array ---
+  ctx.read('/api/queues/:name/jobs', 'job:read', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+
+    const state = req.query.state;
+    if (state && !VALID_STATES.includes(state as JobState)) {
+      return json(400, { error: `Invalid state: ${state}. Must be one of: ${VALID_STATES.join(', ')}` });
+    }
+    const format = req.query.format;
+    if (format !== undefined && format !== 'array' && format !== 'page') {
+      return json(400, { error: 'format must be page or array' });
+    }
+
+    const excludeData = req.query.excludeData === 'true';
+    const getJobsOpts = excludeData ? { excludeData: true as const } : undefined;
+
+    if (format === 'array') {
+      const start = parseInt(req.query.start as string, 10) || 0;
+      const end = parseInt(req.query.end as string, 10);
+      const endVal = isNaN(end) ? 20 : Math.min(end, start + MAX_PAGE_SIZE);
+      try {
+        const view = await ctx.jobView(req, queue.name);
+        if (state) {
+          const jobs = getJobsOpts
+            ? await queue.getJobs(state as JobState, start, endVal, getJobsOpts)
+            : await queue.getJobs(state as JobState, start, endVal);
+          return json(200, jobs.map((j) => ({ ...view(j), state })));
+        }
+        const tagged: Record<string, unknown>[] = [];
+        await Promise.all(
+          VALID_STATES.map(async (s) => {
+            const jobs = getJobsOpts
+              ? await queue.getJobs(s, 0, endVal, getJobsOpts)
+              : await queue.getJobs(s, 0, endVal);
+            for (const j of jobs) tagged.push({ ...view(j), state: s });
+          }),
+        );
+        tagged.sort((a, b) => ((b.timestamp as number) ?? 0) - ((a.timestamp as number) ?? 0));
+        return json(200, tagged.slice(start, endVal));
+      } catch (err) {
+        return safeError(err);
+      }
+    }
+
+    let limit = DEFAULT_PAGE_SIZE;
+    if (req.query.limit !== undefined) {
+      if (!/^\d+$/.test(req.query.limit)) {
+        return json(400, { error: 'limit must be a non-negative integer' });
+      }
+      limit = Math.min(Math.max(Number(req.query.limit), 1), MAX_PAGE_SIZE);
+    }
+    const states: readonly JobState[] = state ? [state as JobState] : VALID_STATES;
+    let offsets: Offsets;
+    if (req.query.cursor) {
+      const decoded = decodeCursor(req.query.cursor, states);
+      if (!decoded) {
+        return json(400, { error: 'Invalid cursor' });
+      }
+      offsets = decoded;
+    } else {
+      offsets = Object.fromEntries(states.map((s) => [s, 0]));
+    }
+
+    try {
+      const [view, counts, page] = await Promise.all([
+        ctx.jobView(req, queue.name),
+        queue.getJobCounts(),
+        readJobPage(queue, offsets, limit, getJobsOpts),
+      ]);
+      const body: JobListPage = {
+        items: page.jobs.map(({ job, state: s }: { job: Job; state: JobState }) => ({ ...view(job), state: s })),
+        nextCursor: page.next ? encodeCursor(page.next) : null,
+        totals: Object.fromEntries(VALID_STATES.map((s) => [s, counts[s] ?? 0])) as Record<JobState, number>,
+      };
+      return json(200, body);
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+}
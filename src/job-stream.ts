@@ -0,0 +1,89 @@
+import type { Queue } from 'glide-mq';
+import type { RouteContext } from './core';
+import { json, safeError, sse } from './http';
+
+/** Entries read per `readStream` call. A full page is followed up immediately. */
+const STREAM_BATCH = 100;
+/** Delay between polls while the job is still running and has nothing new. */
+export const STREAM_POLL_INTERVAL_MS = 500;
+const STREAM_HEARTBEAT_MS = 15000;
+
+const FINISHED_STATES = new Set(['completed', 'failed']);
+
+type StreamEntries = Awaited<ReturnType<Queue['readStream']>>;
+
+export function jobStreamRoutes(ctx: RouteContext): void {
+  const { queueMap } = ctx;
+
+  // --- Tail a job's output stream until the job finishes ---
+  ctx.read('/api/queues/:name/jobs/:id/stream', 'job:readData', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const jobId = req.params.id;
+    // EventSource sends Last-Event-ID on reconnect; it is newer than the ?lastId the stream was opened with.
+    const startId = req.header('last-event-id') || req.query.lastId;
+    // Read the first batch up front so a broken stream still answers with a plain error.
+    let first: StreamEntries;
+    try {
+      first = await queue.readStream(jobId, { lastId: startId, count: STREAM_BATCH });
+    } catch (err) {
+      return safeError(err);
+    }
+
+    const redact = await ctx.redactor(req, queue.name);
+
+    return sse(async (sink) => {
+      let cursor = startId;
+      let wake: (() => void) | null = null;
+      const heartbeat = setInterval(() => sink.write(': heartbeat\n\n'), STREAM_HEARTBEAT_MS);
+      sink.onClose(() => {
+        clearInterval(heartbeat);
+        wake?.();
+      });
+      const pause = () => new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, STREAM_POLL_INTERVAL_MS);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      const write = (entries: StreamEntries) => {
+        for (const entry of entries) {
+          const fields = redact ? redact({ output: entry.fields }).output : entry.fields;
+          sink.write(`id: ${entry.id}\nevent: chunk\ndata: ${JSON.stringify(fields)}\n\n`);
+          cursor = entry.id;
+        }
+        return entries.length;
+      };
+      const read = async () => write(await queue.readStream(jobId, { lastId: cursor, count: STREAM_BATCH }));
+
+      try {
+        let count = write(first);
+        while (!sink.closed) {
+          if (count >= STREAM_BATCH) {
+            count = await read();
+            continue;
+          }
+          const job = await queue.getJob(jobId);
+          const state = job ? await job.getState() : null;
+          if (!state || FINISHED_STATES.has(state)) {
+            // Pick up anything written between the last read and the state check, page by page.
+            let tail = await read();
+            while (tail >= STREAM_BATCH && !sink.closed) tail = await read();
+            if (sink.closed) break;
+            sink.write(`event: end\ndata: ${JSON.stringify({ state })}\n\n`);
+            break;
+          }
+          await pause();
+          if (sink.closed) break;
+          count = await read();
+        }
+      } finally {
+        clearInterval(heartbeat);
+        sink.end();
+      }
+    });
+  });
+}
@@ -0,0 +1,145 @@
+import type { Job, Queue } from 'glide-mq';
+import type { RouteContext } from './core';
+import { MAX_PAGE_SIZE, json, safeError } from './http';
+
+/** Upper bound on the `window` of finished jobs read per state. */
+export const MAX_LATENCY_WINDOW = 5000;
+const DEFAULT_LATENCY_WINDOW = 1000;
+const FINISHED_STATES = ['completed', 'failed'] as const;
+
+export interface Percentiles {
+  /** Number of jobs the percentiles were taken over. */
+  count: number;
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+  max: number | null;
+}
+
+export interface LatencyStats {
+  completed: number;
+  failed: number;
+  /** `processedOn - timestamp`, for jobs that started. */
+  wait: Percentiles;
+  /** `finishedOn - processedOn`, for jobs that started and finished. */
+  processing: Percentiles;
+  /** Finish time of the oldest job in the window. */
+  since: number | null;
+  /** Jobs finished per minute, between `since` and now. */
+  throughputPerMin: number | null;
+  /** Jobs whose `finishedOn - timestamp` exceeded `slaMs`; only present when `slaMs` is given. */
+  overSla?: number;
+}
+
+export interface LatencyReport {
+  queue: string;
+  /** Most recent jobs read per state. */
+  window: number;
+  slaMs: number | null;
+  overall: LatencyStats;
+  /** One entry per job name, slowest p95 processing time first. */
+  byName: (LatencyStats & { name: string })[];
+}
+
+/** Nearest-rank percentile of an ascending list. */
+export function percentile(sorted: number[], p: number): number | null {
+  if (!sorted.length) return null;
+  return sorted[Math.min(sorted.length, Math.max(1, Math.ceil((p / 100) * sorted.length))) - 1];
+}
+
+function percentiles(values: number[]): Percentiles {
+  const sorted = values.slice().sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+    max: sorted.length ? sorted[sorted.length - 1] : null,
+  };
+}
+
+/** Percentiles and throughput over jobs tagged with the state they were read from. */
+export function latencyStats(jobs: { job: Job; state: string }[], now: number, slaMs: number | null): LatencyStats {
+  const wait: number[] = [];
+  const processing: number[] = [];
+  let oldest: number | null = null;
+  let overSla = 0;
+  for (const { job } of jobs) {
+    if (job.processedOn != null) wait.push(Math.max(job.processedOn - job.timestamp, 0));
+    if (job.processedOn != null && job.finishedOn != null) processing.push(Math.max(job.finishedOn - job.processedOn, 0));
+    if (job.finishedOn != null) {
+      oldest = oldest == null ? job.finishedOn : Math.min(oldest, job.finishedOn);
+      if (slaMs != null && job.finishedOn - job.timestamp > slaMs) overSla++;
+    }
+  }
+  const span = oldest != null ? now - oldest : 0;
+  return {
+    completed: jobs.filter((j) => j.state === 'completed').length,
+    failed: jobs.filter((j) => j.state === 'failed').length,
+    wait: percentiles(wait),
+    processing: percentiles(processing),
+    since: oldest,
+    throughputPerMin: span > 0 ? (jobs.length * 60000) / span : null,
+    ...(slaMs != null ? { overSla } : {}),
+  };
+}
+
+async function readRecent(queue: Queue, window: number): Promise<{ job: Job; state: string }[]> {
+  const jobs: { job: Job; state: string }[] = [];
+  for (const state of FINISHED_STATES) {
+    for (let start = 0; start < window; start += MAX_PAGE_SIZE) {
+      const end = Math.min(start + MAX_PAGE_SIZE, window) - 1;
+      const page = await queue.getJobs(state, start, end, { excludeData: true });
+      for (const job of page.slice(0, end - start + 1)) jobs.push({ job, state });
+      if (page.length <= end - start) break;
+    }
+  }
+  return jobs;
+}
+
+export function latencyRoutes(ctx: RouteContext): void {
+  const { queueMap } = ctx;
+
+  // --- Wait and processing time percentiles over recent finished jobs ---
+  ctx.read('/api/queues/:name/latency', 'queue:read', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const parsed: Record<string, number | null> = { window: DEFAULT_LATENCY_WINDOW, slaMs: null };
+    for (const key of ['window', 'slaMs']) {
+      const raw = req.query[key];
+      if (raw === undefined) continue;
+      if (typeof raw !== 'string' || !/^\d+$/.test(raw)) {
+        return json(400, { error: `${key} must be a non-negative integer` });
+      }
+      parsed[key] = Number(raw);
+    }
+    const window = parsed.window as number;
+    if (window < 1 || window > MAX_LATENCY_WINDOW) {
+      return json(400, { error: `window must be between 1 and ${MAX_LATENCY_WINDOW}` });
+    }
+    try {
+      const jobs = await readRecent(queue, window);
+      const now = Date.now();
+      const byName = new Map<string, { job: Job; state: string }[]>();
+      for (const entry of jobs) {
+        const list = byName.get(entry.job.name);
+        if (list) list.push(entry);
+        else byName.set(entry.job.name, [entry]);
+      }
+      const report: LatencyReport = {
+        queue: queue.name,
+        window,
+        slaMs: parsed.slaMs,
+        overall: latencyStats(jobs, now, parsed.slaMs),
+        byName: [...byName]
+          .map(([name, list]) => ({ name, ...latencyStats(list, now, parsed.slaMs) }))
+          .sort((a, b) => (b.processing.p95 ?? -1) - (a.processing.p95 ?? -1) || a.name.localeCompare(b.name)),
+      };
+      return json(200, report);
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+}
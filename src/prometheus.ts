@@ -0,0 +1,141 @@
+import type { Queue } from 'glide-mq';
+import type { RouteContext } from './core';
+import { json, safeError } from './http';
+
+export interface PrometheusOptions<TReq = any> {
+  /**
+   * Gate for the scrape endpoint, independent of the UI's `authorize`.
+   * Typically checks a bearer token. Return false to answer 403.
+   */
+  authorize?: (req: TReq) => boolean | Promise<boolean>;
+}
+
+const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+type Labels = Record<string, string>;
+
+interface Family {
+  name: string;
+  type: 'gauge' | 'counter';
+  help: string;
+  samples: { labels: Labels; value: number }[];
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Render families in the Prometheus text format, or OpenMetrics when `openMetrics` is set.
+ * Counter families are named without `_total`; the suffix is added to samples (and, for
+ * the Prometheus format, to the TYPE line as well).
+ */
+export function renderMetrics(families: Family[], openMetrics: boolean): string {
+  const lines: string[] = [];
+  for (const family of families) {
+    const sampleName = family.type === 'counter' ? `${family.name}_total` : family.name;
+    const familyName = openMetrics ? family.name : sampleName;
+    lines.push(`# HELP ${familyName} ${family.help}`);
+    lines.push(`# TYPE ${familyName} ${family.type}`);
+    for (const { labels, value } of family.samples) {
+      const labelText = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(',');
+      lines.push(`${sampleName}${labelText ? `{${labelText}}` : ''} ${formatValue(value)}`);
+    }
+  }
+  if (openMetrics) lines.push('# EOF');
+  return lines.join('\n') + '\n';
+}
+
+async function collectQueue(queue: Queue) {
+  const [counts, paused, workers, completed, failed] = await Promise.all([
+    queue.getJobCounts(),
+    queue.isPaused(),
+    queue.getWorkers(),
+    queue.getMetrics('completed'),
+    queue.getMetrics('failed'),
+  ]);
+  return { counts, paused, workers: workers.length, completed: completed.count, failed: failed.count };
+}
+
+export function prometheusRoutes(ctx: RouteContext, options: PrometheusOptions): void {
+  const { queues } = ctx;
+
+  // --- Prometheus / OpenMetrics scrape endpoint ---
+  ctx.route('GET', '/metrics', async (req) => {
+    if (options.authorize && !(await options.authorize(req.raw))) {
+      return json(403, { error: 'Unauthorized' });
+    }
+
+    try {
+      const families: Record<string, Family> = {};
+      const family = (name: string, type: Family['type'], help: string): Family =>
+        (families[name] ??= { name, type, help, samples: [] });
+
+      const up = family('glidemq_queue_up', 'gauge', 'Whether the dashboard could read the queue (1) or not (0).');
+      const jobs = family('glidemq_queue_jobs', 'gauge', 'Jobs in the queue by state.');
+      const paused = family('glidemq_queue_paused', 'gauge', 'Whether the queue is paused (1) or running (0).');
+      const workers = family('glidemq_queue_workers', 'gauge', 'Workers currently connected to the queue.');
+      const completed = family('glidemq_jobs_completed', 'counter', 'Jobs completed, as reported by queue metrics.');
+      const failed = family('glidemq_jobs_failed', 'counter', 'Jobs failed, as reported by queue metrics.');
+
+      const results = await Promise.allSettled(queues.map(collectQueue));
+      results.forEach((result, i) => {
+        const queue = queues[i].name;
+        up.samples.push({ labels: { queue }, value: result.status === 'fulfilled' ? 1 : 0 });
+        if (result.status !== 'fulfilled') return;
+        const r = result.value;
+        for (const [state, count] of Object.entries(r.counts as Record<string, number>)) {
+          jobs.samples.push({ labels: { queue, state }, value: Number(count) || 0 });
+        }
+        paused.samples.push({ labels: { queue }, value: r.paused ? 1 : 0 });
+        workers.samples.push({ labels: { queue }, value: r.workers });
+        completed.samples.push({ labels: { queue }, value: Number(r.completed) || 0 });
+        failed.samples.push({ labels: { queue }, value: Number(r.failed) || 0 });
+      });
+
+      // Usage needs glide-mq's usage aggregation; skip the section when it is unavailable.
+      const summary = queues.length
+        ? await (queues[0] as any).getUsageSummary({ queues: queues.map((q) => q.name) }).catch(() => null)
+        : null;
+      if (summary?.perQueue) {
+        const tokens = family('glidemq_usage_tokens', 'gauge', 'Tokens used in the rolling usage window, by category.');
+        const totalTokens = family('glidemq_usage_total_tokens', 'gauge', 'Total tokens used in the rolling usage window.');
+        const cost = family('glidemq_usage_cost', 'gauge', 'Cost in the rolling usage window, by category.');
+        const totalCost = family('glidemq_usage_total_cost', 'gauge', 'Total cost in the rolling usage window.');
+        const modelJobs = family('glidemq_usage_model_jobs', 'gauge', 'Jobs that reported usage in the rolling window, by model.');
+        for (const [queue, q] of Object.entries(summary.perQueue as Record<string, any>)) {
+          const unit = typeof q.costUnit === 'string' ? q.costUnit : '';
+          for (const [category, value] of Object.entries(q.tokens ?? {})) {
+            tokens.samples.push({ labels: { queue, category }, value: Number(value) || 0 });
+          }
+          totalTokens.samples.push({ labels: { queue }, value: Number(q.totalTokens) || 0 });
+          for (const [category, value] of Object.entries(q.costs ?? {})) {
+            cost.samples.push({ labels: { queue, category, unit }, value: Number(value) || 0 });
+          }
+          totalCost.samples.push({ labels: { queue, unit }, value: Number(q.totalCost) || 0 });
+          for (const [model, count] of Object.entries(q.models ?? {})) {
+            modelJobs.samples.push({ labels: { queue, model }, value: Number(count) || 0 });
+          }
+        }
+      }
+
+      const openMetrics = (req.header('accept') ?? '').includes('application/openmetrics-text');
+      return {
+        type: 'text',
+        status: 200,
+        body: renderMetrics(Object.values(families), openMetrics),
+        headers: { 'Content-Type': openMetrics ? OPENMETRICS_CONTENT_TYPE : PROMETHEUS_CONTENT_TYPE },
+      };
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+}
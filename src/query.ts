@@ -0,0 +1,273 @@
+/**
+ * The job query language of the search box: `field:value` terms joined by `AND` / `OR` with
+ * parentheses, for example `failedReason~timeout AND (attemptsMade>=3 OR data.tenant.id:42)`.
+ * A word without a field matches the job name, so plain name searches keep working.
+ */
+import { VALID_STATES } from './http';
+import type { JobState } from './http';
+
+export type QueryOp = ':' | '~' | '>' | '>=' | '<' | '<=';
+
+export type JobQuery =
+  | { and: JobQuery[] }
+  | { or: JobQuery[] }
+  /** `path` is the field, e.g. `['attemptsMade']` or `['data', 'tenant', 'id']`. */
+  | { path: string[]; op: QueryOp; value: string | number | boolean | null };
+
+type FieldKind = 'time' | 'count' | 'text' | 'key' | 'state';
+
+const FIELDS: Record<string, FieldKind> = {
+  timestamp: 'time',
+  processedOn: 'time',
+  finishedOn: 'time',
+  attemptsMade: 'count',
+  name: 'text',
+  failedReason: 'text',
+  orderingKey: 'key',
+  budgetKey: 'key',
+  parentId: 'key',
+  state: 'state',
+};
+
+const OPS_BY_KIND: Record<FieldKind | 'data', QueryOp[]> = {
+  time: [':', '>', '>=', '<', '<='],
+  count: [':', '>', '>=', '<', '<='],
+  text: [':', '~'],
+  key: [':'],
+  state: [':'],
+  data: [':', '~', '>', '>=', '<', '<='],
+};
+
+const UNIT_MS: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000, d: 86400000, w: 604800000 };
+
+/** Longest operators first, so `>=` is not read as `>` followed by `=`. */
+const OPERATORS: QueryOp[] = ['>=', '<=', ':', '~', '>', '<'];
+
+interface Token {
+  kind: '(' | ')' | 'AND' | 'OR' | 'term';
+  at: number;
+  field?: string;
+  op?: QueryOp;
+  value?: string;
+  /** The value was written in double quotes, so it is never read as a number or keyword. */
+  quoted?: boolean;
+}
+
+class QueryError extends Error {
+  constructor(message: string, readonly at: number) {
+    super(message);
+  }
+}
+
+function readValue(text: string, i: number): { value: string; quoted: boolean; end: number } {
+  if (text[i] === '"') {
+    let value = '';
+    let j = i + 1;
+    while (j < text.length && text[j] !== '"') {
+      if (text[j] === '\\' && j + 1 < text.length) j++;
+      value += text[j++];
+    }
+    if (j >= text.length) throw new QueryError('unterminated quoted value', i);
+    return { value, quoted: true, end: j + 1 };
+  }
+  let j = i;
+  while (j < text.length && !/[\s()]/.test(text[j])) j++;
+  return { value: text.slice(i, j), quoted: false, end: j };
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const c = text[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === '(' || c === ')') {
+      tokens.push({ kind: c, at: i });
+      i++;
+    } else {
+      const field = /^[A-Za-z_][\w.]*/.exec(text.slice(i))?.[0];
+      const op = field ? OPERATORS.find((o) => text.startsWith(o, i + field.length)) : undefined;
+      if (field && op) {
+        const start = i + field.length + op.length;
+        if (start >= text.length || /[\s()]/.test(text[start])) throw new QueryError(`"${field}${op}" needs a value`, i);
+        const { value, quoted, end } = readValue(text, start);
+        tokens.push({ kind: 'term', at: i, field, op, value, quoted });
+        i = end;
+      } else {
+        const { value, quoted, end } = readValue(text, i);
+        if (!quoted && /^[A-Za-z_][\w.]*[!=<>]/.test(value)) {
+          throw new QueryError(`"${value}" uses an unknown operator; use ${OPERATORS.join(' ')}`, i);
+        }
+        if (!quoted && (value === 'AND' || value === 'OR')) tokens.push({ kind: value, at: i });
+        else tokens.push({ kind: 'term', at: i, field: 'name', op: ':', value, quoted });
+        i = end;
+      }
+    }
+  }
+  return tokens;
+}
+
+/** Epoch ms from an integer, an ISO date or time, `now`, or `now-<n><unit>` with unit ms, s, m, h, d or w. */
+function parseTime(text: string, now: number): number | null {
+  if (/^\d+$/.test(text)) return Number(text);
+  const relative = /^now(?:-(\d+)(ms|s|m|h|d|w))?$/.exec(text);
+  if (relative) return relative[1] ? now - Number(relative[1]) * UNIT_MS[relative[2]] : now;
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    const parsed = Date.parse(text);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+/** Unquoted data values that look like JSON literals compare as those; anything else as a string. */
+function dataValue(token: Token): string | number | boolean | null {
+  const value = token.value!;
+  if (token.quoted) return value;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (value === 'null') return null;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+function buildTerm(token: Token, now: number): JobQuery {
+  const field = token.field!;
+  const op = token.op!;
+  const value = token.value!;
+  const path = field.split('.');
+  if (path.some((segment) => !segment)) throw new QueryError(`"${field}" has an empty path segment`, token.at);
+  const kind: FieldKind | 'data' | undefined = path[0] === 'data' && path.length > 1 ? 'data' : path.length === 1 ? FIELDS[field] : undefined;
+  if (!kind) {
+    throw new QueryError(`unknown field "${field}"; use ${Object.keys(FIELDS).join(', ')} or data.<path>`, token.at);
+  }
+  if (!OPS_BY_KIND[kind].includes(op)) {
+    throw new QueryError(`${field} supports ${OPS_BY_KIND[kind].join(' ')}, not ${op}`, token.at);
+  }
+  switch (kind) {
+    case 'time': {
+      const range = op === ':' ? /^(.*)\.\.(.*)$/.exec(value) : null;
+      if (op === ':' && !range) throw new QueryError(`${field}: takes a range like 2026-01-01..2026-02-01 or now-1h..`, token.at);
+      const bounds: { op: QueryOp; text: string }[] = range
+        ? [{ op: '>=' as const, text: range[1] }, { op: '<' as const, text: range[2] }].filter((b) => b.text)
+        : [{ op, text: value }];
+      if (!bounds.length) throw new QueryError(`${field}: the range needs a start or an end`, token.at);
+      const terms = bounds.map((b) => {
+        const time = parseTime(b.text, now);
+        if (time == null) throw new QueryError(`${field}: "${b.text}" is not a time (epoch ms, ISO date, now or now-1h)`, token.at);
+        return { path, op: b.op, value: time };
+      });
+      return terms.length === 1 ? terms[0] : { and: terms };
+    }
+    case 'count':
+      if (!/^\d+$/.test(value)) throw new QueryError(`${field} needs a non-negative integer, got "${value}"`, token.at);
+      return { path, op, value: Number(value) };
+    case 'state':
+      if (!VALID_STATES.includes(value as JobState)) {
+        throw new QueryError(`state "${value}" is not one of ${VALID_STATES.join(', ')}`, token.at);
+      }
+      return { path, op, value };
+    case 'data': {
+      const typed = dataValue(token);
+      if (op !== ':' && op !== '~' && typeof typed !== 'number') {
+        throw new QueryError(`${field}${op} needs a number, got "${value}"`, token.at);
+      }
+      return { path, op, value: op === '~' ? value : typed };
+    }
+    default:
+      return { path, op, value };
+  }
+}
+
+/**
+ * Parse a query. Errors say what is wrong and where (`at` is a 0-based offset), so they can be
+ * shown as-is. `now` anchors `now-1h`-style times.
+ */
+export function parseJobQuery(text: string, now = Date.now()): { query: JobQuery } | { error: string; at: number } {
+  try {
+    const tokens = tokenize(text);
+    if (!tokens.length) throw new QueryError('query is empty', 0);
+    let pos = 0;
+
+    const parseOr = (): JobQuery => {
+      const parts = [parseAnd()];
+      while (tokens[pos]?.kind === 'OR') {
+        pos++;
+        parts.push(parseAnd());
+      }
+      return parts.length === 1 ? parts[0] : { or: parts };
+    };
+    // Terms side by side are ANDed, so `AND` itself is optional.
+    const parseAnd = (): JobQuery => {
+      const parts = [parsePrimary()];
+      while (pos < tokens.length && tokens[pos].kind !== 'OR' && tokens[pos].kind !== ')') {
+        if (tokens[pos].kind === 'AND') pos++;
+        parts.push(parsePrimary());
+      }
+      return parts.length === 1 ? parts[0] : { and: parts };
+    };
+    const parsePrimary = (): JobQuery => {
+      const token = tokens[pos];
+      if (!token) throw new QueryError('query ends where a term was expected', text.length);
+      if (token.kind === '(') {
+        pos++;
+        const inner = parseOr();
+        if (tokens[pos]?.kind !== ')') throw new QueryError('missing closing parenthesis', token.at);
+        pos++;
+        return inner;
+      }
+      if (token.kind !== 'term') throw new QueryError(`expected a term, found ${token.kind}`, token.at);
+      pos++;
+      return buildTerm(token, now);
+    };
+
+    const query = parseOr();
+    if (pos < tokens.length) throw new QueryError('unexpected closing parenthesis', tokens[pos].at);
+    return { query };
+  } catch (err) {
+    if (err instanceof QueryError) return { error: err.message, at: err.at };
+    throw err;
+  }
+}
+
+/** True when any term of the query reads job data. */
+export function queryReadsData(query: JobQuery): boolean {
+  if ('and' in query) return query.and.some(queryReadsData);
+  if ('or' in query) return query.or.some(queryReadsData);
+  return query.path[0] === 'data';
+}
+
+function lookup(record: Record<string, unknown>, path: string[]): unknown {
+  let value: unknown = record;
+  for (const segment of path) {
+    if (value == null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * Whether a job matches. `job` is the job as the caller sees it, with its `state`, so terms on
+ * data only see what the caller may read, after redaction.
+ */
+export function matchesQuery(query: JobQuery, job: Record<string, unknown>): boolean {
+  if ('and' in query) return query.and.every((q) => matchesQuery(q, job));
+  if ('or' in query) return query.or.some((q) => matchesQuery(q, job));
+  const actual = lookup(job, query.path);
+  const { op, value } = query;
+  switch (op) {
+    case ':':
+      if (actual === value) return true;
+      // Keys and ids are compared as text, so `data.id:42` also finds `"42"` and `parentId:7` finds 7.
+      return actual != null && typeof actual !== 'object' && value != null && String(actual) === String(value);
+    case '~':
+      return typeof actual === 'string' && actual.toLowerCase().includes(String(value).toLowerCase());
+    default: {
+      if (typeof actual !== 'number' || typeof value !== 'number') return false;
+      if (op === '>') return actual > value;
+      if (op === '>=') return actual >= value;
+      if (op === '<') return actual < value;
+      return actual <= value;
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import type { Job } from 'glide-mq';
+import { MUTATION_ACTIONS, READ_ACTIONS, UNREDACTED_ACTION } from './actions';
+import type { AccessAction } from './actions';
+import type { DashboardOptions, RouteContext } from './core';
+import { json, serializeJob } from './http';
+import type { DashboardRequest } from './http';
+
+/**
+ * What one role may do. `actions` and `queues` accept exact names and `*` wildcards,
+ * e.g. `'*'`, `'job:*'` or `'tenant-a-*'`.
+ */
+export interface RbacRole {
+  actions: string[];
+  /** Queues the role applies to. Defaults to every queue. */
+  queues?: string[];
+}
+
+export interface RbacOptions<TReq = any> {
+  /** Role name to its grants. A bare array is shorthand for `{ actions }` on every queue. */
+  roles: Record<string, RbacRole | string[]>;
+  /** Resolve the caller's role(s) from the framework-native request. No role means no access. */
+  resolveRole: (req: TReq) => string | string[] | null | undefined | Promise<string | string[] | null | undefined>;
+}
+
+export interface Access {
+  /** The caller's roles; null when RBAC is off. */
+  roles: string[] | null;
+  /**
+   * Whether the caller holds `action` on `queue`. Without a queue, whether they hold it
+   * on any queue, which is what global routes such as `/api/queues` check before filtering.
+   */
+  can(action: AccessAction, queue?: string | null): boolean;
+}
+
+/** Job fields that carry payload content and need `job:readData`. */
+const DATA_FIELDS = ['data', 'returnvalue'];
+
+const OPEN_ACCESS: Access = { roles: null, can: () => true };
+
+/** Compile a name pattern where `*` matches any run of characters. */
+export function globToRegex(pattern: string): RegExp {
+  return new RegExp(`^${pattern.split('*').map((p) => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+}
+
+interface CompiledRole {
+  actions: RegExp[];
+  queues: RegExp[] | null;
+}
+
+const compiled = new WeakMap<RbacOptions, Map<string, CompiledRole>>();
+
+function compileRoles(rbac: RbacOptions): Map<string, CompiledRole> {
+  let roles = compiled.get(rbac);
+  if (!roles) {
+    roles = new Map();
+    for (const [name, role] of Object.entries(rbac.roles)) {
+      const { actions, queues } = Array.isArray(role) ? { actions: role, queues: undefined } : role;
+      roles.set(name, { actions: actions.map(globToRegex), queues: queues ? queues.map(globToRegex) : null });
+    }
+    compiled.set(rbac, roles);
+  }
+  return roles;
+}
+
+// One role lookup per request, however many checks a route makes (bulk actions check every job).
+const resolved = new WeakMap<DashboardRequest, Promise<Access>>();
+
+/** Resolve what the caller of `req` may do. Everything is allowed when `rbac` is not configured. */
+export function resolveAccess(req: DashboardRequest, opts: DashboardOptions | undefined): Promise<Access> {
+  const rbac = opts?.rbac;
+  if (!rbac) return Promise.resolve(OPEN_ACCESS);
+  let access = resolved.get(req);
+  if (!access) {
+    access = (async () => {
+      const result = await rbac.resolveRole(req.raw);
+      const names = result == null ? [] : Array.isArray(result) ? result : [result];
+      const all = compileRoles(rbac);
+      const roles = names.map((n) => all.get(n)).filter((r): r is CompiledRole => !!r);
+      return {
+        roles: names,
+        can(action, queue) {
+          return roles.some((role) => role.actions.some((a) => a.test(action))
+            && (queue == null || !role.queues || role.queues.some((q) => q.test(queue))));
+        },
+      };
+    })();
+    resolved.set(req, access);
+  }
+  return access;
+}
+
+/** Serialize jobs for a caller, leaving out payload fields unless they hold `job:readData` on the queue. */
+export function jobSerializer(access: Access, queue: string): (job: Job) => Record<string, unknown> {
+  if (access.can('job:readData', queue)) return serializeJob;
+  return (job) => {
+    const result = serializeJob(job);
+    for (const field of DATA_FIELDS) delete result[field];
+    return result;
+  };
+}
+
+/** Drop payload fields from an event unless the caller holds `job:readData` on its queue. */
+export function eventPayload(access: Access, queue: string, payload: unknown): unknown {
+  if (access.can('job:readData', queue) || !payload || typeof payload !== 'object') return payload;
+  const result = { ...(payload as Record<string, unknown>) };
+  for (const field of DATA_FIELDS) delete result[field];
+  return result;
+}
+
+/** Mutation actions `authorize` allows, asked in one call when the host provides `authorizeActions`. */
+async function authorizedMutations(req: DashboardRequest, opts: DashboardOptions | undefined): Promise<Set<string>> {
+  if (opts?.readOnly) return new Set();
+  if (opts?.authorizeActions) return new Set(await opts.authorizeActions(req.raw, [...MUTATION_ACTIONS]));
+  const authorize = opts?.authorize;
+  if (!authorize) return new Set(MUTATION_ACTIONS);
+  // authorize isn't queue-aware, so it answers once per action.
+  const answers = await Promise.all(MUTATION_ACTIONS.map((action) => authorize(req.raw, action)));
+  return new Set(MUTATION_ACTIONS.filter((_, i) => answers[i]));
+}
+
+export function rbacRoutes(ctx: RouteContext): void {
+  const { queues, opts } = ctx;
+  // Without RBAC nobody is exempt from redaction, so job:readUnredacted is only reported with it.
+  const actions: AccessAction[] = [...READ_ACTIONS, ...(opts?.rbac ? [UNREDACTED_ACTION] : []), ...MUTATION_ACTIONS];
+
+  // --- What the caller may do, so the UI can hide what they can't ---
+  ctx.route('GET', '/api/me', async (req) => {
+    const caller = await ctx.access(req);
+    const authorized = await authorizedMutations(req, opts);
+    const allowed = (action: AccessAction, queue: string | null) =>
+      caller.can(action, queue) && (!(MUTATION_ACTIONS as readonly string[]).includes(action) || authorized.has(action));
+
+    const perQueue: Record<string, AccessAction[]> = {};
+    for (const q of queues) {
+      const held = actions.filter((a) => allowed(a, q.name));
+      if (held.length) perQueue[q.name] = held;
+    }
+    return json(200, {
+      rbac: !!opts?.rbac,
+      readOnly: !!opts?.readOnly,
+      roles: caller.roles,
+      actions: actions.filter((a) => allowed(a, null)),
+      queues: perQueue,
+    });
+  });
+}
@@ -0,0 +1,172 @@
+import { globToRegex } from './rbac';
+
+/** Default replacement for masked values. */
+export const REDACTED = '[REDACTED]';
+
+/** Serialized job (and event payload) fields that carry content and are walked by the rules. */
+const CONTENT_FIELDS = ['data', 'opts', 'progress', 'returnvalue', 'failedReason', 'stacktrace', 'logs', 'output'];
+
+/**
+ * One redaction rule. Paths, keys and values mask what they match; `custom` sees every leaf
+ * that is left. Rules apply to `data`, `opts`, `progress`, `returnvalue`, `failedReason`, `stacktrace`,
+ * logs and stream output.
+ */
+export interface RedactionRule {
+  /** Queues the rule applies to, with `*` wildcards. Defaults to every queue. */
+  queues?: string[];
+  /** JSON paths from the serialized job, e.g. `$.data.user.email`, `$.data.items[*].token`, `$.failedReason` or `$.logs[*]`. */
+  paths?: string[];
+  /** Property names masked at any depth: names with `*` wildcards (case-insensitive) or regexes. */
+  keys?: (string | RegExp)[];
+  /** Patterns masked inside any string, such as emails or API keys in prompt text and logs. */
+  values?: RegExp[];
+  /** Called with each remaining leaf and its path; the return value replaces the leaf. */
+  custom?: (value: unknown, path: string, queue: string) => unknown;
+  /** What masked values become. Default `'[REDACTED]'`. */
+  replacement?: string;
+}
+
+/** Mask a record's content fields. Sets `redacted: true` when anything was replaced. */
+export type Redactor = (record: Record<string, unknown>) => Record<string, unknown>;
+
+const WILDCARD = Symbol('wildcard');
+type Segment = string | number | typeof WILDCARD;
+
+interface CompiledRule {
+  queues: RegExp[] | null;
+  paths: Segment[][];
+  keys: RegExp[];
+  values: RegExp[];
+  custom?: RedactionRule['custom'];
+  replacement: string;
+}
+
+const PATH_TOKEN = /\.([^.[\]]+)|\[(\d+|\*|'[^']*'|"[^"]*")\]/y;
+
+function parsePath(path: string): Segment[] {
+  if (!path.startsWith('$')) {
+    throw new TypeError(`Invalid redaction path "${path}": must start with $`);
+  }
+  const segments: Segment[] = [];
+  const token = new RegExp(PATH_TOKEN);
+  token.lastIndex = 1;
+  while (token.lastIndex < path.length) {
+    const match = token.exec(path);
+    if (!match) {
+      throw new TypeError(`Invalid redaction path "${path}"`);
+    }
+    const raw = match[1] ?? match[2];
+    if (raw === '*') segments.push(WILDCARD);
+    else if (match[2] && /^\d+$/.test(raw)) segments.push(Number(raw));
+    else if (match[2]) segments.push(raw.slice(1, -1));
+    else segments.push(raw);
+  }
+  return segments;
+}
+
+function formatPath(segments: (string | number)[]): string {
+  return '$' + segments
+    .map((s) => (typeof s === 'number' ? `[${s}]` : /^[A-Za-z_$][\w$]*$/.test(s) ? `.${s}` : `[${JSON.stringify(s)}]`))
+    .join('');
+}
+
+function matchesPath(pattern: Segment[], segments: (string | number)[]): boolean {
+  return pattern.length === segments.length
+    && pattern.every((p, i) => p === WILDCARD || String(p) === String(segments[i]));
+}
+
+function compileRule(rule: RedactionRule): CompiledRule {
+  return {
+    queues: rule.queues ? rule.queues.map(globToRegex) : null,
+    paths: (rule.paths ?? []).map(parsePath),
+    keys: (rule.keys ?? []).map((k) =>
+      (typeof k === 'string' ? new RegExp(globToRegex(k).source, 'i') : new RegExp(k.source, k.flags.replace('g', '')))),
+    values: (rule.values ?? []).map((v) => new RegExp(v.source, v.flags.includes('g') ? v.flags : v.flags + 'g')),
+    custom: rule.custom,
+    replacement: rule.replacement ?? REDACTED,
+  };
+}
+
+function redactValue(value: unknown, segments: (string | number)[], rules: CompiledRule[], queue: string, hit: { any: boolean }): unknown {
+  const byPath = rules.find((r) => r.paths.some((p) => matchesPath(p, segments)));
+  if (byPath) {
+    hit.any = true;
+    return byPath.replacement;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => redactValue(item, [...segments, i], rules, queue, hit));
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const byKey = rules.find((r) => r.keys.some((k) => k.test(key)));
+      if (byKey) hit.any = true;
+      result[key] = byKey ? byKey.replacement : redactValue(item, [...segments, key], rules, queue, hit);
+    }
+    return result;
+  }
+  let result = value;
+  for (const rule of rules) {
+    if (typeof result === 'string') {
+      for (const pattern of rule.values) {
+        result = (result as string).replace(pattern, () => {
+          hit.any = true;
+          return rule.replacement;
+        });
+      }
+    }
+    if (rule.custom) {
+      const replaced = rule.custom(result, formatPath(segments), queue);
+      if (replaced !== result) hit.any = true;
+      result = replaced;
+    }
+  }
+  return result;
+}
+
+/** A failure reason as `redact` shows it, for routes that report reasons outside jobView. */
+export function shownReason(reason: string | undefined, redact: Redactor | null): string {
+  if (!redact || !reason) return reason ?? '';
+  return String(redact({ failedReason: reason }).failedReason);
+}
+
+/** What masked values become under `rules`, plus the default, so content that went through them can be recognised. */
+export function redactionPlaceholders(rules: RedactionRule[]): string[] {
+  return [...new Set([REDACTED, ...rules.map((r) => r.replacement ?? REDACTED)])];
+}
+
+/** Whether any string in `value` contains one of `placeholders`. */
+export function containsPlaceholder(value: unknown, placeholders: string[]): boolean {
+  if (typeof value === 'string') return placeholders.some((p) => value.includes(p));
+  if (Array.isArray(value)) return value.some((item) => containsPlaceholder(item, placeholders));
+  if (value && typeof value === 'object') {
+    return Object.entries(value).some(([key, item]) => containsPlaceholder(key, placeholders) || containsPlaceholder(item, placeholders));
+  }
+  return false;
+}
+
+/**
+ * Compile redaction rules once; the result hands out the redactor for a queue, or null when
+ * no rule applies to it. Invalid paths throw here rather than on the first request.
+ */
+export function createRedaction(rules: RedactionRule[]): (queue: string) => Redactor | null {
+  const compiled = rules.map(compileRule);
+  const cache = new Map<string, Redactor | null>();
+  return (queue) => {
+    if (cache.has(queue)) return cache.get(queue)!;
+    const active = compiled.filter((r) => !r.queues || r.queues.some((q) => q.test(queue)));
+    const redactor: Redactor | null = active.length
+      ? (record) => {
+        const hit = { any: false };
+        const result = { ...record };
+        for (const field of CONTENT_FIELDS) {
+          if (result[field] !== undefined) result[field] = redactValue(result[field], [field], active, queue, hit);
+        }
+        if (hit.any) result.redacted = true;
+        return result;
+      }
+      : null;
+    cache.set(queue, redactor);
+    return redactor;
+  };
+}
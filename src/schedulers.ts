@@ -0,0 +1,313 @@
+import type { Job, Queue } from 'glide-mq';
+import type { RouteContext } from './core';
+import { isValidTimeZone, nextCronTimes, parseCron } from './cron';
+import { MAX_PAGE_SIZE, VALID_STATES, json, safeError } from './http';
+import type { Redactor } from './redact';
+
+/** Jobs read per state when looking for the runs of one scheduler. */
+export const MAX_SCHEDULER_SCAN = 1000;
+const DEFAULT_PREVIEW_COUNT = 5;
+const MAX_PREVIEW_COUNT = 50;
+const DEFAULT_RUNS = 20;
+const SCHEDULE_KINDS = ['pattern', 'every', 'repeatAfterComplete'] as const;
+/** Entry fields that make up the schedule when a paused scheduler is put back. */
+const SCHEDULE_KEYS = [...SCHEDULE_KINDS, 'tz', 'startDate', 'endDate', 'limit'];
+
+type SchedulerTemplate = NonNullable<Parameters<Queue['upsertJobScheduler']>[2]>;
+
+/** A scheduler as `getRepeatableJobs()` returns it. */
+type SchedulerEntry = Record<string, unknown> & { template?: SchedulerTemplate };
+
+/** A scheduler taken out of glide-mq by pause, kept so resume can put it back unchanged. */
+export interface PausedScheduler {
+  queue: string;
+  name: string;
+  /** The entry as `getRepeatableJobs()` returned it. */
+  entry: SchedulerEntry;
+  pausedAt: number;
+}
+
+/**
+ * Where paused schedulers are kept. A paused scheduler exists only here, so a store that
+ * loses it (a restart, another replica with its own memory) loses the scheduler for good.
+ */
+export interface SchedulerStore {
+  save(paused: PausedScheduler): void | Promise<void>;
+  get(queue: string, name: string): PausedScheduler | null | Promise<PausedScheduler | null>;
+  list(queue: string): PausedScheduler[] | Promise<PausedScheduler[]>;
+  remove(queue: string, name: string): void | Promise<void>;
+}
+
+/** Keep paused schedulers in process memory. For tests and single-process setups that can afford to lose them. */
+export function memorySchedulerStore(): SchedulerStore {
+  const byQueue = new Map<string, Map<string, PausedScheduler>>();
+  return {
+    save(paused) {
+      const schedulers = byQueue.get(paused.queue) ?? new Map<string, PausedScheduler>();
+      schedulers.set(paused.name, paused);
+      byQueue.set(paused.queue, schedulers);
+    },
+    get(queue, name) {
+      return byQueue.get(queue)?.get(name) ?? null;
+    },
+    list(queue) {
+      return [...(byQueue.get(queue)?.values() ?? [])];
+    },
+    remove(queue, name) {
+      byQueue.get(queue)?.delete(name);
+    },
+  };
+}
+
+/** The time zone patterns without `tz` are previewed in: the server's own. */
+function defaultTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/** Check a scheduler's schedule before it reaches glide-mq. Returns it unchanged or a readable error. */
+export function parseSchedule(raw: unknown): { schedule: Record<string, unknown> } | { error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { error: 'schedule is required and must be an object' };
+  const schedule = raw as Record<string, unknown>;
+  const kinds = SCHEDULE_KINDS.filter((k) => schedule[k] != null);
+  if (kinds.length !== 1) return { error: 'schedule needs exactly one of pattern, every or repeatAfterComplete' };
+  for (const key of ['every', 'repeatAfterComplete'] as const) {
+    const value = schedule[key];
+    if (value != null && (typeof value !== 'number' || !Number.isInteger(value) || value <= 0)) {
+      return { error: `schedule.${key} must be a positive integer (ms)` };
+    }
+  }
+  if (schedule.tz != null && (typeof schedule.tz !== 'string' || !isValidTimeZone(schedule.tz))) {
+    return { error: `schedule.tz ${JSON.stringify(schedule.tz)} is not a known time zone` };
+  }
+  if (schedule.pattern != null) {
+    if (typeof schedule.pattern !== 'string') return { error: 'schedule.pattern must be a string' };
+    const parsed = parseCron(schedule.pattern);
+    if ('error' in parsed) return { error: `schedule.pattern: ${parsed.error}` };
+    if (!nextCronTimes(parsed.cron, (schedule.tz as string | undefined) ?? defaultTimeZone(), Date.now(), 1).length) {
+      return { error: 'schedule.pattern never fires' };
+    }
+  }
+  return { schedule };
+}
+
+/** The next `count` fire times of a valid schedule after `from`. `repeatAfterComplete` depends on the jobs, so it has none. */
+export function previewSchedule(schedule: Record<string, unknown>, from: number, count: number): number[] {
+  const { every } = schedule;
+  if (typeof every === 'number') {
+    return Array.from({ length: count }, (_, i) => from + every * (i + 1));
+  }
+  if (typeof schedule.pattern !== 'string') return [];
+  const parsed = parseCron(schedule.pattern);
+  if ('error' in parsed) return [];
+  return nextCronTimes(parsed.cron, (schedule.tz as string | undefined) ?? defaultTimeZone(), from, count);
+}
+
+/** A scheduler entry as the caller may see it: template `data` hidden without job:readData, then redacted. */
+function entryView(entry: SchedulerEntry | undefined, readData: boolean, redact: Redactor | null): SchedulerEntry | undefined {
+  if (!entry?.template) return entry;
+  const { data, ...rest } = entry.template as Record<string, unknown>;
+  const template = readData ? { ...rest, data } : rest;
+  return { ...entry, template: (redact ? redact(template) : template) as SchedulerTemplate };
+}
+
+async function findScheduler(queue: Queue, name: string): Promise<{ name: string; entry?: SchedulerEntry } | null> {
+  const schedulers = (await queue.getRepeatableJobs()) as { name: string; entry?: SchedulerEntry }[];
+  return schedulers.find((s) => s.name === name) ?? null;
+}
+
+/** `store` is null when no `schedulerStore` is configured; pausing is refused then. */
+export function schedulerRoutes(ctx: RouteContext, store: SchedulerStore | null): void {
+  const { queueMap } = ctx;
+
+  // --- Get job schedulers, paused ones included ---
+  ctx.read('/api/queues/:name/schedulers', 'queue:read', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    try {
+      const [schedulers, paused] = await Promise.all([queue.getRepeatableJobs(), store?.list(queue.name) ?? []]);
+      // Templates carry job data, so they follow the same rules as jobView.
+      const readData = (await ctx.access(req)).can('job:readData', queue.name);
+      const redact = await ctx.redactor(req, queue.name);
+      return json(200, [
+        ...(schedulers as { entry?: SchedulerEntry }[]).map((s) => ({ ...s, entry: entryView(s.entry, readData, redact) })),
+        ...paused.map((p: PausedScheduler) => ({
+          name: p.name, entry: entryView(p.entry, readData, redact), paused: true, pausedAt: p.pausedAt,
+        })),
+      ]);
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Next fire times of a schedule, before it is saved ---
+  ctx.read('/api/queues/:name/schedulers/preview', 'queue:read', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const { pattern, every, tz, count } = req.query as Record<string, unknown>;
+    if (count !== undefined && (typeof count !== 'string' || !/^\d+$/.test(count) || Number(count) < 1 || Number(count) > MAX_PREVIEW_COUNT)) {
+      return json(400, { error: `count must be between 1 and ${MAX_PREVIEW_COUNT}` });
+    }
+    if (every !== undefined && (typeof every !== 'string' || !/^\d+$/.test(every))) {
+      return json(400, { error: 'every must be a positive integer (ms)' });
+    }
+    const parsed = parseSchedule({
+      ...(pattern !== undefined ? { pattern } : {}),
+      ...(every !== undefined ? { every: Number(every) } : {}),
+      ...(tz ? { tz } : {}),
+    });
+    if ('error' in parsed) {
+      return json(400, { error: parsed.error });
+    }
+    const zone = typeof tz === 'string' && tz ? tz : defaultTimeZone();
+    return json(200, { tz: zone, times: previewSchedule({ ...parsed.schedule, tz: zone }, Date.now(), Number(count ?? DEFAULT_PREVIEW_COUNT)) });
+  });
+
+  // --- Jobs a scheduler produced, newest first ---
+  ctx.read('/api/queues/:name/schedulers/:schedulerName/runs', 'job:read', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const name = req.params.schedulerName;
+    try {
+      const runs: { job: Job; state: string }[] = [];
+      let truncated = false;
+      await Promise.all(VALID_STATES.map(async (state) => {
+        for (let start = 0; start < MAX_SCHEDULER_SCAN; start += MAX_PAGE_SIZE) {
+          const page = await queue.getJobs(state, start, start + MAX_PAGE_SIZE - 1, { excludeData: true });
+          for (const job of page.slice(0, MAX_PAGE_SIZE)) {
+            if ((job as any).schedulerName === name) runs.push({ job, state });
+          }
+          if (page.length < MAX_PAGE_SIZE) return;
+        }
+        truncated = true;
+      }));
+      runs.sort((a, b) => (b.job.timestamp ?? 0) - (a.job.timestamp ?? 0));
+      const view = await ctx.jobView(req, queue.name);
+      return json(200, { truncated, runs: runs.slice(0, DEFAULT_RUNS).map(({ job, state }) => ({ ...view(job), state })) });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Create/upsert scheduler ---
+  ctx.mutation('POST', '/api/queues/:name/schedulers', 'scheduler:upsert', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const { name: schedulerName, schedule, template } = req.body ?? {};
+    if (!schedulerName || typeof schedulerName !== 'string') {
+      return json(400, { error: 'name is required and must be a string' });
+    }
+    const parsed = parseSchedule(schedule);
+    if ('error' in parsed) {
+      return json(400, { error: parsed.error });
+    }
+    try {
+      await queue.upsertJobScheduler(schedulerName, parsed.schedule, template);
+      // Saving a paused scheduler puts it back with the new definition.
+      await store?.remove(queue.name, schedulerName);
+      return json(200, { status: 'ok' });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Remove scheduler ---
+  ctx.mutation('DELETE', '/api/queues/:name/schedulers/:schedulerName', 'scheduler:remove', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const schedulerName = req.params.schedulerName;
+    try {
+      await queue.removeJobScheduler(schedulerName);
+      await store?.remove(queue.name, schedulerName);
+      return json(200, { status: 'removed' });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Pause a scheduler: take it out of glide-mq and keep its entry ---
+  ctx.mutation('POST', '/api/queues/:name/schedulers/:schedulerName/pause', 'scheduler:pause', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    // Without a store the definition would only live in this process; refuse rather than risk losing it.
+    if (!store) {
+      return json(501, { error: 'Pausing schedulers requires a schedulerStore' });
+    }
+    const schedulerName = req.params.schedulerName;
+    try {
+      if (await store.get(queue.name, schedulerName)) {
+        return json(409, { error: 'Scheduler is already paused' });
+      }
+      const scheduler = await findScheduler(queue, schedulerName);
+      if (!scheduler) {
+        return json(404, { error: 'Scheduler not found' });
+      }
+      await store.save({ queue: queue.name, name: schedulerName, entry: scheduler.entry ?? {}, pausedAt: Date.now() });
+      try {
+        await queue.removeJobScheduler(schedulerName);
+      } catch (err) {
+        // The scheduler is still active, so it must not also be listed as paused.
+        await store.remove(queue.name, schedulerName);
+        throw err;
+      }
+      return json(200, { status: 'paused' });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Resume a paused scheduler from its kept entry ---
+  ctx.mutation('POST', '/api/queues/:name/schedulers/:schedulerName/resume', 'scheduler:resume', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const schedulerName = req.params.schedulerName;
+    try {
+      const paused = store && await store.get(queue.name, schedulerName);
+      if (!store || !paused) {
+        return json(404, { error: 'Scheduler is not paused' });
+      }
+      const schedule: Record<string, unknown> = {};
+      for (const key of SCHEDULE_KEYS) {
+        if (paused.entry[key] != null) schedule[key] = paused.entry[key];
+      }
+      await queue.upsertJobScheduler(schedulerName, schedule, paused.entry.template);
+      await store.remove(queue.name, schedulerName);
+      return json(200, { status: 'resumed' });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Add one job from a scheduler's template now, outside its schedule ---
+  ctx.mutation('POST', '/api/queues/:name/schedulers/:schedulerName/run', 'scheduler:run', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const schedulerName = req.params.schedulerName;
+    try {
+      const entry = (await findScheduler(queue, schedulerName))?.entry ?? (await store?.get(queue.name, schedulerName))?.entry;
+      if (!entry) {
+        return json(404, { error: 'Scheduler not found' });
+      }
+      const template = (entry.template ?? {}) as { name?: string; data?: unknown; opts?: Record<string, unknown> };
+      const job = await queue.add(template.name ?? schedulerName, template.data ?? {}, template.opts ?? {});
+      return json(200, { status: 'ok', id: job?.id != null ? String(job.id) : null });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+}
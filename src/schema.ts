@@ -0,0 +1,113 @@
+/**
+ * The subset of JSON Schema (draft-07 keywords) the dashboard checks job data against.
+ * Unknown keywords are ignored, so a full schema can be passed as-is.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/** Custom validator (e.g. a compiled ajv function wrapper). Return error messages, or an empty list / null when valid. */
+export type JobDataValidator = (data: unknown) => string[] | null | Promise<string[] | null>;
+
+const MAX_SCHEMA_ERRORS = 20;
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function check(schema: JsonSchema, value: unknown, path: string, errors: string[]): void {
+  if (errors.length >= MAX_SCHEMA_ERRORS) return;
+
+  if (schema.type != null) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      errors.push(`${path} must be ${types.join(' or ')}`);
+      return;
+    }
+  }
+  if (schema.enum && !schema.enum.some((e) => JSON.stringify(e) === JSON.stringify(value))) {
+    errors.push(`${path} must be one of ${schema.enum.map((e) => JSON.stringify(e)).join(', ')}`);
+  }
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path} must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength != null && value.length < schema.minLength) errors.push(`${path} must be at least ${schema.minLength} characters`);
+    if (schema.maxLength != null && value.length > schema.maxLength) errors.push(`${path} must be at most ${schema.maxLength} characters`);
+    if (schema.pattern != null && !new RegExp(schema.pattern, 'u').test(value)) errors.push(`${path} must match ${schema.pattern}`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum != null && value < schema.minimum) errors.push(`${path} must be >= ${schema.minimum}`);
+    if (schema.maximum != null && value > schema.maximum) errors.push(`${path} must be <= ${schema.maximum}`);
+    if (schema.exclusiveMinimum != null && value <= schema.exclusiveMinimum) errors.push(`${path} must be > ${schema.exclusiveMinimum}`);
+    if (schema.exclusiveMaximum != null && value >= schema.exclusiveMaximum) errors.push(`${path} must be < ${schema.exclusiveMaximum}`);
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems != null && value.length < schema.minItems) errors.push(`${path} must have at least ${schema.minItems} items`);
+    if (schema.maxItems != null && value.length > schema.maxItems) errors.push(`${path} must have at most ${schema.maxItems} items`);
+    if (schema.items) value.forEach((item, i) => check(schema.items!, item, `${path}[${i}]`, errors));
+  }
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in obj)) errors.push(`${path}.${key} is required`);
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const sub = schema.properties?.[key];
+      if (sub) check(sub, child, `${path}.${key}`, errors);
+      else if (schema.additionalProperties === false) errors.push(`${path}.${key} is not allowed`);
+      else if (typeof schema.additionalProperties === 'object') check(schema.additionalProperties, child, `${path}.${key}`, errors);
+    }
+  }
+
+  for (const sub of schema.allOf ?? []) check(sub, value, path, errors);
+  if (schema.anyOf && !schema.anyOf.some((sub) => validateSchema(sub, value).length === 0)) {
+    errors.push(`${path} must match at least one allowed shape`);
+  }
+}
+
+/** Validate `value` against `schema`. Returns human-readable errors, empty when valid. */
+export function validateSchema(schema: JsonSchema, value: unknown): string[] {
+  const errors: string[] = [];
+  check(schema, value, '$', errors);
+  return errors.slice(0, MAX_SCHEMA_ERRORS);
+}
+
+/** Run a queue's schema or validator. Returns null when the data is valid or the queue has none. */
+export async function validateJobData(
+  validator: JsonSchema | JobDataValidator | undefined,
+  data: unknown,
+): Promise<string[] | null> {
+  if (!validator) return null;
+  const errors = typeof validator === 'function' ? await validator(data) : validateSchema(validator, data);
+  return errors && errors.length ? errors : null;
+}
@@ -0,0 +1,200 @@
+import type { SearchJobsOptions } from 'glide-mq';
+import type { RouteContext } from './core';
+import { MAX_PAGE_SIZE, VALID_STATES, json, safeError } from './http';
+import type { JobState } from './http';
+import { matchesQuery, parseJobQuery, queryReadsData } from './query';
+
+/** Jobs read per state when evaluating a `q` query. */
+export const MAX_SEARCH_SCAN = 1000;
+const DEFAULT_SEARCH_LIMIT = 50;
+const MAX_SEARCH_NAME = 100;
+
+/** A named query, shared by everyone who can read the queue. */
+export interface SavedSearch {
+  queue: string;
+  name: string;
+  /** Text in the query language of `GET /api/queues/:name/search?q=`. */
+  query: string;
+  /** State the search is limited to, as the `state` filter tab. */
+  state: JobState | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Where saved searches are kept. Use a durable store to keep them across restarts. */
+export interface SavedSearchStore {
+  save(search: SavedSearch): void | Promise<void>;
+  get(queue: string, name: string): SavedSearch | null | Promise<SavedSearch | null>;
+  list(queue: string): SavedSearch[] | Promise<SavedSearch[]>;
+  remove(queue: string, name: string): void | Promise<void>;
+}
+
+export function memorySavedSearchStore(): SavedSearchStore {
+  const byQueue = new Map<string, Map<string, SavedSearch>>();
+  return {
+    save(search) {
+      const searches = byQueue.get(search.queue) ?? new Map<string, SavedSearch>();
+      searches.set(search.name, search);
+      byQueue.set(search.queue, searches);
+    },
+    get(queue, name) {
+      return byQueue.get(queue)?.get(name) ?? null;
+    },
+    list(queue) {
+      return [...(byQueue.get(queue)?.values() ?? [])];
+    },
+    remove(queue, name) {
+      byQueue.get(queue)?.delete(name);
+    },
+  };
+}
+
+export function searchRoutes(ctx: RouteContext, store: SavedSearchStore): void {
+  const { queueMap } = ctx;
+
+  // --- Search jobs: the q query language, or searchJobs with name and data; format=array keeps the plain array ---
+  ctx.read('/api/queues/:name/search', 'job:read', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const format = req.query.format;
+    if (format !== undefined && format !== 'array') {
+      return json(400, { error: 'format must be array when given' });
+    }
+    const respond = (items: Record<string, unknown>[], truncated: boolean) =>
+      json(200, format === 'array' ? items : { items, truncated });
+
+    const state = req.query.state;
+    if (state && !VALID_STATES.includes(state as JobState)) {
+      return json(400, { error: `Invalid state: ${state}. Must be one of: ${VALID_STATES.join(', ')}` });
+    }
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || DEFAULT_SEARCH_LIMIT, MAX_PAGE_SIZE);
+
+    if (req.query.q === undefined) {
+      const searchOpts: SearchJobsOptions = { limit };
+      if (state) searchOpts.state = state as JobState;
+      if (req.query.name) searchOpts.name = req.query.name;
+      if (req.query.data) {
+        try {
+          searchOpts.data = JSON.parse(req.query.data);
+        } catch {
+          return json(400, { error: 'data must be valid JSON' });
+        }
+      }
+      try {
+        const jobs = await queue.searchJobs(searchOpts);
+        // searchJobs has no scan cap here, so its results are never reported as truncated.
+        return respond(jobs.map(await ctx.jobView(req, queue.name)), false);
+      } catch (err) {
+        return safeError(err);
+      }
+    }
+
+    if (req.query.name || req.query.data) {
+      return json(400, { error: 'q cannot be combined with name or data' });
+    }
+    const parsed = parseJobQuery(req.query.q);
+    if ('error' in parsed) {
+      return json(400, { error: `q: ${parsed.error} (column ${parsed.at + 1})`, at: parsed.at });
+    }
+    try {
+      // Terms are matched against the job as the caller sees it, so data paths need job:readData.
+      if (queryReadsData(parsed.query) && !(await ctx.access(req)).can('job:readData', queue.name)) {
+        return json(403, { error: 'Querying data paths requires job:readData' });
+      }
+      const view = await ctx.jobView(req, queue.name);
+      const matches: Record<string, unknown>[] = [];
+      let truncated = false;
+      const states: readonly JobState[] = state ? [state as JobState] : VALID_STATES;
+      await Promise.all(states.map(async (s) => {
+        for (let start = 0; start < MAX_SEARCH_SCAN; start += MAX_PAGE_SIZE) {
+          const page = await queue.getJobs(s, start, start + MAX_PAGE_SIZE - 1);
+          for (const job of page.slice(0, MAX_PAGE_SIZE)) {
+            const seen = { ...view(job), state: s };
+            if (matchesQuery(parsed.query, seen)) matches.push(seen);
+          }
+          if (page.length < MAX_PAGE_SIZE) return;
+        }
+        // Older jobs of this state were never read, so matches among them are missing.
+        truncated = true;
+      }));
+      matches.sort((a, b) => ((b.timestamp as number) ?? 0) - ((a.timestamp as number) ?? 0));
+      return respond(matches.slice(0, limit), truncated);
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Saved searches of a queue, by name ---
+  ctx.read('/api/queues/:name/searches', 'job:read', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    try {
+      const searches = await store.list(queue.name);
+      return json(200, searches.slice().sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Save a search, replacing one of the same name ---
+  ctx.mutation('POST', '/api/queues/:name/searches', 'search:save', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const { name, query, state } = req.body ?? {};
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return json(400, { error: 'name is required and must be a string' });
+    }
+    if (name.length > MAX_SEARCH_NAME) {
+      return json(400, { error: `name must be at most ${MAX_SEARCH_NAME} characters` });
+    }
+    if (typeof query !== 'string') {
+      return json(400, { error: 'query is required and must be a string' });
+    }
+    const parsed = parseJobQuery(query);
+    if ('error' in parsed) {
+      return json(400, { error: `query: ${parsed.error} (column ${parsed.at + 1})`, at: parsed.at });
+    }
+    if (state != null && !VALID_STATES.includes(state)) {
+      return json(400, { error: `Invalid state: ${state}. Must be one of: ${VALID_STATES.join(', ')}` });
+    }
+    try {
+      const now = Date.now();
+      const existing = await store.get(queue.name, name.trim());
+      const search: SavedSearch = {
+        queue: queue.name,
+        name: name.trim(),
+        query,
+        state: state ?? null,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      await store.save(search);
+      return json(200, { status: 'ok', search });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+
+  // --- Delete a saved search ---
+  ctx.mutation('DELETE', '/api/queues/:name/searches/:searchName', 'search:remove', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    try {
+      if (!(await store.get(queue.name, req.params.searchName))) {
+        return json(404, { error: 'Saved search not found' });
+      }
+      await store.remove(queue.name, req.params.searchName);
+      return json(200, { status: 'removed' });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+}
@@ -0,0 +1,151 @@
+import type { Job } from 'glide-mq';
+import type { RouteContext } from './core';
+import type { EventHub } from './events';
+import { json, safeError } from './http';
+import { shownReason } from './redact';
+
+export type TimelineKind = 'created' | 'ready' | 'started' | 'completed' | 'failed' | 'event';
+
+export interface TimelineEntry {
+  time: number;
+  kind: TimelineKind;
+  label: string;
+  detail?: string;
+}
+
+export interface JobTimeline {
+  queue: string;
+  jobId: string;
+  name: string;
+  state: string;
+  attemptsMade: number;
+  /** `opts.attempts`; null when the job is not retried. */
+  maxAttempts: number | null;
+  durations: {
+    /** `opts.delay` before the job became ready. */
+    delayMs: number;
+    /** From ready to the start of the latest attempt, so earlier attempts and their backoff are included. */
+    waitMs: number | null;
+    /** Latest attempt, from start to finish. */
+    processingMs: number | null;
+    /** From creation to finish. */
+    totalMs: number | null;
+  };
+  /** Backoff configured in `opts.backoff`, normalized. */
+  backoff: { type: string; delayMs: number } | null;
+  /** Backoff before each retry the job has had so far, per `backoff`. */
+  backoffDelays: number[];
+  /** Time from a failed attempt to the next start, from the events the dashboard saw. */
+  retryGaps: { failedAt: number; retriedAt: number; gapMs: number }[];
+  /** Oldest first. Buffered events only cover what arrived since the dashboard started. */
+  entries: TimelineEntry[];
+  /** Present with `job:readData`. */
+  logs?: string[];
+}
+
+function normalizeBackoff(backoff: unknown): JobTimeline['backoff'] {
+  if (typeof backoff === 'number') return backoff > 0 ? { type: 'fixed', delayMs: backoff } : null;
+  if (!backoff || typeof backoff !== 'object') return null;
+  const { type, delay } = backoff as { type?: unknown; delay?: unknown };
+  return { type: typeof type === 'string' ? type : 'fixed', delayMs: typeof delay === 'number' ? delay : 0 };
+}
+
+/** Backoff before retry 1..`retries`. Exponential doubles per retry; custom strategies are unknown here. */
+export function backoffDelays(backoff: JobTimeline['backoff'], retries: number): number[] {
+  if (!backoff || backoff.type === 'custom') return [];
+  const delays: number[] = [];
+  for (let n = 1; n <= retries; n++) {
+    delays.push(backoff.type === 'exponential' ? backoff.delayMs * 2 ** (n - 1) : backoff.delayMs);
+  }
+  return delays;
+}
+
+export function buildTimeline(job: Job, queue: string, state: string, events: { event: string; timestamp: number; payload: unknown }[]): JobTimeline {
+  const opts = (job.opts ?? {}) as { delay?: unknown; attempts?: unknown; backoff?: unknown };
+  const delayMs = typeof opts.delay === 'number' && opts.delay > 0 ? opts.delay : 0;
+  const created = job.timestamp;
+  const ready = created + delayMs;
+  const { processedOn, finishedOn } = job;
+
+  const entries: TimelineEntry[] = [{ time: created, kind: 'created', label: 'Created' }];
+  if (delayMs) entries.push({ time: ready, kind: 'ready', label: 'Delay elapsed' });
+  if (processedOn != null) {
+    entries.push({ time: processedOn, kind: 'started', label: job.attemptsMade > 1 ? `Attempt ${job.attemptsMade} started` : 'Started' });
+  }
+  if (finishedOn != null) {
+    const failed = state === 'failed' || (job.failedReason != null && state !== 'completed');
+    entries.push(failed
+      ? { time: finishedOn, kind: 'failed', label: 'Failed', ...(job.failedReason ? { detail: job.failedReason } : {}) }
+      : { time: finishedOn, kind: 'completed', label: 'Completed' });
+  }
+  for (const e of events) {
+    const { failedReason } = (e.payload ?? {}) as { failedReason?: unknown };
+    entries.push({ time: e.timestamp, kind: 'event', label: e.event, ...(typeof failedReason === 'string' ? { detail: failedReason } : {}) });
+  }
+  entries.sort((a, b) => a.time - b.time);
+
+  const retryGaps: JobTimeline['retryGaps'] = [];
+  let failedAt: number | null = null;
+  for (const e of events) {
+    if (e.event === 'failed') failedAt = e.timestamp;
+    else if (e.event === 'active' && failedAt != null) {
+      retryGaps.push({ failedAt, retriedAt: e.timestamp, gapMs: e.timestamp - failedAt });
+      failedAt = null;
+    }
+  }
+
+  const backoff = normalizeBackoff(opts.backoff);
+  return {
+    queue,
+    jobId: String(job.id),
+    name: job.name,
+    state,
+    attemptsMade: job.attemptsMade ?? 0,
+    maxAttempts: typeof opts.attempts === 'number' ? opts.attempts : null,
+    durations: {
+      delayMs,
+      waitMs: processedOn != null ? Math.max(processedOn - ready, 0) : null,
+      processingMs: processedOn != null && finishedOn != null ? finishedOn - processedOn : null,
+      totalMs: finishedOn != null ? finishedOn - created : null,
+    },
+    backoff,
+    backoffDelays: backoffDelays(backoff, Math.max((job.attemptsMade ?? 0) - 1, 0)),
+    retryGaps,
+    entries,
+  };
+}
+
+export function timelineRoutes(ctx: RouteContext, hub: EventHub): void {
+  const { queueMap } = ctx;
+
+  // --- Lifecycle of one job: timestamps, attempts, backoff, logs and the events seen for it ---
+  ctx.read('/api/queues/:name/jobs/:id/timeline', 'job:read', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    try {
+      const job = await queue.getJob(req.params.id);
+      if (!job) {
+        return json(404, { error: 'Job not found' });
+      }
+      const state = await job.getState();
+      const events = hub.recent().filter((e) => e.queue === queue.name
+        && String((e.payload as { jobId?: unknown } | null)?.jobId) === req.params.id);
+      const timeline = buildTimeline(job, queue.name, state, events);
+      // Failure details are masked like the job's failedReason.
+      const redact = await ctx.redactor(req, queue.name);
+      for (const entry of timeline.entries) {
+        if (entry.detail) entry.detail = shownReason(entry.detail, redact);
+      }
+      // Logs are payload content, so they follow the same rules as the single-job route.
+      if ((await ctx.access(req)).can('job:readData', queue.name)) {
+        const { logs } = await queue.getJobLogs(req.params.id);
+        timeline.logs = redact ? (redact({ logs }).logs as string[]) : logs;
+      }
+      return json(200, timeline);
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+}
@@ -0,0 +1,347 @@
+import type { Job, Queue, SearchJobsOptions } from 'glide-mq';
+import { describeAuditValue } from './audit';
+import type { RouteContext } from './core';
+import { MAX_IMPORT_BODY_BYTES, MAX_PAGE_SIZE, VALID_STATES, json, safeError } from './http';
+import type { DashboardResponse, DashboardStreamSink, JobState } from './http';
+import { parseJobOpts } from './job-data';
+import { containsPlaceholder, redactionPlaceholders } from './redact';
+import { validateJobData } from './schema';
+
+/** Upper bound on jobs in one export or import. */
+export const MAX_TRANSFER_JOBS = 10000;
+
+type TransferFormat = 'ndjson' | 'csv';
+
+const FORMATS: TransferFormat[] = ['ndjson', 'csv'];
+
+const CONTENT_TYPES: Record<TransferFormat, string> = {
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+};
+
+/** CSV columns, in order. Object values are written as JSON. */
+const CSV_COLUMNS = [
+  'id', 'name', 'state', 'data', 'opts', 'progress', 'attemptsMade',
+  'failedReason', 'returnvalue', 'timestamp', 'processedOn', 'finishedOn',
+];
+
+/** Opts that tie a job to its original instance and are dropped even when opts are kept. */
+const INSTANCE_OPTS = ['jobId', 'parent'];
+
+export interface ImportRecord {
+  name: string;
+  data: unknown;
+  opts?: Record<string, unknown>;
+}
+
+export interface ImportError {
+  /** 1-based line (NDJSON) or row (CSV, counting the header) the error refers to. */
+  line: number;
+  error: string;
+}
+
+export function csvCell(value: unknown): string {
+  if (value == null) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatRecord(format: TransferFormat, record: Record<string, unknown>): string {
+  if (format === 'ndjson') return JSON.stringify(record) + '\n';
+  return CSV_COLUMNS.map((col) => csvCell(record[col])).join(',') + '\r\n';
+}
+
+/** Split CSV text into rows of cells (RFC 4180 quoting, CRLF or LF line endings). */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.length > 1 || r[0] !== '');
+}
+
+function toRecord(raw: unknown): ImportRecord | string {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return 'must be an object';
+  const { name, data, opts } = raw as Record<string, unknown>;
+  if (!name || typeof name !== 'string') return 'name is required and must be a string';
+  if (opts != null && (typeof opts !== 'object' || Array.isArray(opts))) return 'opts must be an object';
+  return { name, data: data ?? {}, opts: (opts ?? undefined) as Record<string, unknown> | undefined };
+}
+
+/** Parse an uploaded export back into records, collecting per-line errors instead of stopping at the first. */
+export function parseImport(
+  format: TransferFormat,
+  content: string,
+): { records: { line: number; record: ImportRecord }[]; errors: ImportError[] } {
+  const records: { line: number; record: ImportRecord }[] = [];
+  const errors: ImportError[] = [];
+  const add = (line: number, raw: unknown) => {
+    const result = toRecord(raw);
+    if (typeof result === 'string') errors.push({ line, error: result });
+    else records.push({ line, record: result });
+  };
+
+  if (format === 'ndjson') {
+    content.split(/\r?\n/).forEach((text, i) => {
+      if (!text.trim()) return;
+      try {
+        add(i + 1, JSON.parse(text));
+      } catch {
+        errors.push({ line: i + 1, error: 'invalid JSON' });
+      }
+    });
+    return { records, errors };
+  }
+
+  const [header, ...rows] = parseCsv(content);
+  if (!header || !header.includes('name')) {
+    errors.push({ line: 1, error: 'CSV header must include a name column' });
+    return { records, errors };
+  }
+  rows.forEach((cells, i) => {
+    const line = i + 2;
+    const raw: Record<string, unknown> = {};
+    header.forEach((col, c) => { raw[col] = cells[c] ?? ''; });
+    for (const col of ['data', 'opts']) {
+      if (raw[col] == null || raw[col] === '') {
+        raw[col] = undefined;
+        continue;
+      }
+      try {
+        raw[col] = JSON.parse(raw[col] as string);
+      } catch {
+        errors.push({ line, error: `${col} is not valid JSON` });
+        return;
+      }
+    }
+    add(line, raw);
+  });
+  return { records, errors };
+}
+
+/** Copy a job's opts for re-enqueueing, without the ones tied to the original instance. */
+export function stripInstanceOpts(opts: Record<string, unknown> | undefined): Record<string, unknown> {
+  const copy = { ...opts };
+  for (const key of INSTANCE_OPTS) delete copy[key];
+  return copy;
+}
+
+/** Reads an export in pages so it can go past MAX_PAGE_SIZE. */
+function exportPages(
+  queue: Queue,
+  states: JobState[],
+  search: SearchJobsOptions | null,
+  limit: number,
+): () => Promise<{ job: Job; state: string | null }[]> {
+  if (search) {
+    let done = false;
+    return async () => {
+      if (done) return [];
+      done = true;
+      const jobs = await queue.searchJobs({ ...search, limit });
+      return jobs.map((job: Job) => ({ job, state: search.state ?? null }));
+    };
+  }
+  let stateIndex = 0;
+  let start = 0;
+  let sent = 0;
+  return async () => {
+    while (stateIndex < states.length && sent < limit) {
+      const state = states[stateIndex];
+      const size = Math.min(MAX_PAGE_SIZE, limit - sent);
+      const jobs = (await queue.getJobs(state, start, start + size - 1)).slice(0, size);
+      if (jobs.length < size) {
+        stateIndex++;
+        start = 0;
+      } else {
+        start += size;
+      }
+      if (jobs.length) {
+        sent += jobs.length;
+        return jobs.map((job: Job) => ({ job, state }));
+      }
+    }
+    return [];
+  };
+}
+
+export function transferRoutes(ctx: RouteContext): void {
+  const { queueMap, opts } = ctx;
+  // Exports made with redaction on carry these in place of the real values.
+  const placeholders = redactionPlaceholders(opts?.redact ?? []);
+
+  // --- Export jobs as NDJSON or CSV ---
+  ctx.read('/api/queues/:name/export', 'job:readData', async (req): Promise<DashboardResponse> => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const format = (req.query.format || 'ndjson') as TransferFormat;
+    if (!FORMATS.includes(format)) {
+      return json(400, { error: `Invalid format: ${format}. Must be one of: ${FORMATS.join(', ')}` });
+    }
+    const state = req.query.state;
+    if (state && !VALID_STATES.includes(state as JobState)) {
+      return json(400, { error: `Invalid state: ${state}. Must be one of: ${VALID_STATES.join(', ')}` });
+    }
+    let limit = MAX_TRANSFER_JOBS;
+    if (req.query.limit) {
+      if (!/^\d+$/.test(req.query.limit)) {
+        return json(400, { error: 'limit must be a non-negative integer' });
+      }
+      limit = Math.min(parseInt(req.query.limit, 10), MAX_TRANSFER_JOBS);
+    }
+
+    // A name or data filter goes through searchJobs, like /search; otherwise page through the state(s).
+    let search: SearchJobsOptions | null = null;
+    if (req.query.name || req.query.data) {
+      search = {};
+      if (state) search.state = state as JobState;
+      if (req.query.name) search.name = req.query.name;
+      if (req.query.data) {
+        try {
+          search.data = JSON.parse(req.query.data);
+        } catch {
+          return json(400, { error: 'data must be valid JSON' });
+        }
+      }
+    }
+    const next = exportPages(queue, state ? [state as JobState] : [...VALID_STATES], search, limit);
+
+    // Read the first page up front so a broken queue still answers with a plain error.
+    let page: Awaited<ReturnType<typeof next>>;
+    try {
+      page = await next();
+    } catch (err) {
+      return safeError(err);
+    }
+
+    const view = await ctx.jobView(req, queue.name);
+    const filename = `${queue.name}-${state || 'all'}-${Date.now()}.${format}`;
+    return {
+      type: 'stream',
+      status: 200,
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename.replace(/[^\w.-]/g, '_')}"`,
+        'Cache-Control': 'no-cache',
+      },
+      start: async (sink: DashboardStreamSink) => {
+        if (format === 'csv') sink.write(CSV_COLUMNS.join(',') + '\r\n');
+        try {
+          while (page.length && !sink.closed) {
+            for (const { job, state: jobState } of page) {
+              sink.write(formatRecord(format, { ...view(job), state: jobState }));
+            }
+            page = await next();
+          }
+        } finally {
+          sink.end();
+        }
+      },
+    };
+  });
+
+  // --- Re-enqueue an exported file into this queue ---
+  // The audit log gets the file's size and line count: its job data is beyond the redactor's reach.
+  ctx.mutation('POST', '/api/queues/:name/import', 'queue:import', async (req) => {
+    const queue = queueMap.get(req.params.name);
+    if (!queue) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const { format = 'ndjson', content, dryRun = false, opts: optsMode = 'reset' } = req.body ?? {};
+    if (!FORMATS.includes(format)) {
+      return json(400, { error: `Invalid format: ${format}. Must be one of: ${FORMATS.join(', ')}` });
+    }
+    if (typeof content !== 'string') {
+      return json(400, { error: 'content is required and must be a string' });
+    }
+    if (optsMode !== 'keep' && optsMode !== 'reset') {
+      return json(400, { error: 'opts must be "keep" or "reset"' });
+    }
+
+    const { records, errors } = parseImport(format, content);
+    const total = records.length + errors.length;
+    if (total > MAX_TRANSFER_JOBS) {
+      return json(400, { error: `At most ${MAX_TRANSFER_JOBS} jobs per import` });
+    }
+    try {
+      const validator = opts?.jobSchemas?.[queue.name];
+      const jobOpts = new Map<number, Record<string, unknown>>();
+      for (const { line, record } of records) {
+        if (containsPlaceholder([record.data, record.opts], placeholders)) {
+          errors.push({ line, error: 'contains a redaction placeholder; re-export it without redaction' });
+          continue;
+        }
+        // Kept opts go through the same checks as the add-job form.
+        const parsed = optsMode === 'keep' ? parseJobOpts(stripInstanceOpts(record.opts)) : { opts: {} };
+        if ('error' in parsed) {
+          errors.push({ line, error: parsed.error });
+          continue;
+        }
+        jobOpts.set(line, parsed.opts);
+        const invalid = await validateJobData(validator, record.data);
+        if (invalid) errors.push({ line, error: invalid.join('; ') });
+      }
+      errors.sort((a, b) => a.line - b.line);
+
+      // Nothing is enqueued unless the whole file is valid.
+      if (dryRun || errors.length) {
+        const report = { dryRun: !!dryRun, total, valid: total - errors.length, errors };
+        return dryRun
+          ? json(200, report)
+          : json(400, { error: `${errors.length} invalid record(s); nothing was imported`, ...report });
+      }
+
+      // Jobs added before a failure stay enqueued, so report them for a safe retry of the rest.
+      const ids: (string | null)[] = [];
+      for (const { line, record } of records) {
+        try {
+          const job = await queue.add(record.name, record.data, jobOpts.get(line));
+          ids.push(job?.id ?? null);
+        } catch (err) {
+          const message = err instanceof Error ? err.message : 'Internal server error';
+          return json(500, {
+            error: `Import stopped at line ${line} after ${ids.length} job(s) were added: ${message}`,
+            added: ids.length,
+            ids,
+            failedAt: line,
+          });
+        }
+      }
+      return json(200, { status: 'ok', added: ids.length, ids });
+    } catch (err) {
+      return safeError(err);
+    }
+  }, (body) => (typeof body.content === 'string' ? { ...body, content: describeAuditValue(body.content) } : body), MAX_IMPORT_BODY_BYTES);
+}
@@ -0,0 +1,230 @@
+import type { Job, Queue } from 'glide-mq';
+import type { RouteContext } from './core';
+import { usageTotals } from './flows';
+import { MAX_PAGE_SIZE, json, safeError } from './http';
+import { csvCell } from './transfer';
+
+/** Upper bound on finished jobs read per queue and state for the model and job-name breakdowns. */
+export const MAX_USAGE_SCAN = 5000;
+const MAX_USAGE_BUCKETS = 120;
+const DEFAULT_USAGE_RANGE_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_USAGE_BUCKETS = 24;
+const TOP_JOB_NAMES = 20;
+const FINISHED_STATES = ['completed', 'failed'] as const;
+const CSV_HEADER = 'bucket,dimension,key,tokens,cost';
+
+/** Tokens and cost of one queue or model, per bucket and in total. */
+export interface UsageSeries {
+  tokens: number[];
+  cost: number[];
+  totalTokens: number;
+  totalCost: number;
+  jobs: number;
+}
+
+export interface UsageTotals {
+  tokens: number;
+  cost: number;
+  jobs: number;
+}
+
+export interface UsageAnalytics {
+  start: number;
+  end: number;
+  granularityMs: number;
+  /** Start time of each bucket; every series has one value per bucket. */
+  buckets: number[];
+  costUnit: string | null;
+  totals: UsageTotals;
+  /** The same span immediately before `start`. */
+  previous: UsageTotals & { start: number; end: number };
+  /** Relative change against `previous` (0.25 is +25%); null when the previous value was 0. */
+  change: { tokens: number | null; cost: number | null; jobs: number | null };
+  /** From glide-mq's usage summary, so removed jobs still count. */
+  byQueue: Record<string, UsageSeries>;
+  /** From the finished jobs still kept, by `usage.model`. */
+  byModel: Record<string, UsageSeries>;
+  topJobNames: { queue: string; name: string; jobs: number; tokens: number; cost: number }[];
+  /** True when a queue had more finished jobs than `MAX_USAGE_SCAN` per state. */
+  truncated: boolean;
+}
+
+function emptySeries(size: number): UsageSeries {
+  return { tokens: new Array(size).fill(0), cost: new Array(size).fill(0), totalTokens: 0, totalCost: 0, jobs: 0 };
+}
+
+function addTo(series: UsageSeries, bucket: number, tokens: number, cost: number, jobs: number): void {
+  series.tokens[bucket] += tokens;
+  series.cost[bucket] += cost;
+  series.totalTokens += tokens;
+  series.totalCost += cost;
+  series.jobs += jobs;
+}
+
+function relativeChange(current: number, previous: number): number | null {
+  return previous ? (current - previous) / previous : null;
+}
+
+/** Finished jobs of `queue` that ended inside [start, end), up to `MAX_USAGE_SCAN` per state. */
+async function scanFinished(queue: Queue, start: number, end: number): Promise<{ jobs: Job[]; truncated: boolean }> {
+  const jobs: Job[] = [];
+  let truncated = false;
+  for (const state of FINISHED_STATES) {
+    let read = 0;
+    for (; read < MAX_USAGE_SCAN; read += MAX_PAGE_SIZE) {
+      const page = await queue.getJobs(state, read, read + MAX_PAGE_SIZE - 1, { excludeData: true });
+      for (const job of page.slice(0, MAX_PAGE_SIZE)) {
+        if (job.finishedOn != null && job.finishedOn >= start && job.finishedOn < end) jobs.push(job);
+      }
+      if (page.length < MAX_PAGE_SIZE) break;
+    }
+    if (read >= MAX_USAGE_SCAN) truncated = true;
+  }
+  return { jobs, truncated };
+}
+
+/** One CSV row per bucket and queue or model. */
+export function usageCsv(analytics: UsageAnalytics): string {
+  const rows = [CSV_HEADER];
+  for (const [dimension, series] of [['queue', analytics.byQueue], ['model', analytics.byModel]] as const) {
+    for (const [key, s] of Object.entries(series)) {
+      analytics.buckets.forEach((bucket, i) => {
+        rows.push([new Date(bucket).toISOString(), dimension, key, s.tokens[i], s.cost[i]].map(csvCell).join(','));
+      });
+    }
+  }
+  return rows.join('\r\n') + '\r\n';
+}
+
+export function usageRoutes(ctx: RouteContext): void {
+  const { queues, queueMap } = ctx;
+
+  // --- Token and cost analytics over a time range ---
+  ctx.read('/api/usage/analytics', 'usage:read', async (req) => {
+    const params: Record<string, number> = {};
+    for (const key of ['start', 'end', 'granularity'] as const) {
+      const value = req.query[key];
+      if (value == null || value === '') continue;
+      if (!/^\d+$/.test(value)) {
+        return json(400, { error: `${key} must be a non-negative integer` });
+      }
+      params[key] = parseInt(value, 10);
+    }
+    const end = params.end ?? Date.now();
+    const start = params.start ?? end - DEFAULT_USAGE_RANGE_MS;
+    if (start >= end) {
+      return json(400, { error: 'start must be before end' });
+    }
+    const span = end - start;
+    const granularityMs = params.granularity ?? Math.ceil(span / DEFAULT_USAGE_BUCKETS);
+    if (granularityMs < 1 || Math.ceil(span / granularityMs) > MAX_USAGE_BUCKETS) {
+      return json(400, { error: `granularity must split the range into 1 to ${MAX_USAGE_BUCKETS} buckets` });
+    }
+    const format = req.query.format || 'json';
+    if (format !== 'json' && format !== 'csv') {
+      return json(400, { error: `Invalid format: ${format}. Must be one of: json, csv` });
+    }
+
+    const requested = typeof req.query.queues === 'string'
+      ? req.query.queues.split(',').map((value) => value.trim()).filter(Boolean)
+      : undefined;
+    if (requested && requested.some((name) => !queueMap.has(name))) {
+      return json(404, { error: 'Queue not found' });
+    }
+    const caller = await ctx.access(req);
+    if (requested && requested.some((name) => !caller.can('usage:read', name))) {
+      return json(403, { error: 'Unauthorized' });
+    }
+    const names = requested ?? queues.map((q) => q.name).filter((name) => caller.can('usage:read', name));
+
+    const buckets: number[] = [];
+    for (let t = start; t < end; t += granularityMs) buckets.push(t);
+    const bucketOf = (time: number) => Math.min(Math.floor((time - start) / granularityMs), buckets.length - 1);
+
+    const result: UsageAnalytics = {
+      start,
+      end,
+      granularityMs,
+      buckets,
+      costUnit: null,
+      totals: { tokens: 0, cost: 0, jobs: 0 },
+      previous: { start: start - span, end: start, tokens: 0, cost: 0, jobs: 0 },
+      change: { tokens: null, cost: null, jobs: null },
+      byQueue: {},
+      byModel: {},
+      topJobNames: [],
+      truncated: false,
+    };
+
+    try {
+      if (names.length) {
+        const summarize = (startTime: number, endTime: number) =>
+          (queueMap.get(names[0]) as any).getUsageSummary({ startTime, endTime, queues: names });
+        const [summaries, previous, scans] = await Promise.all([
+          Promise.all(buckets.map((t) => summarize(t, Math.min(t + granularityMs, end)))),
+          summarize(start - span, start),
+          Promise.all(names.map((name) => scanFinished(queueMap.get(name)!, start, end))),
+        ]);
+
+        for (const name of names) result.byQueue[name] = emptySeries(buckets.length);
+        summaries.forEach((summary: any, i: number) => {
+          result.costUnit ??= typeof summary?.costUnit === 'string' ? summary.costUnit : null;
+          for (const [name, q] of Object.entries<any>(summary?.perQueue ?? {})) {
+            const series = result.byQueue[name];
+            if (series) addTo(series, i, Number(q.totalTokens) || 0, Number(q.totalCost) || 0, Number(q.jobCount) || 0);
+          }
+        });
+        for (const series of Object.values(result.byQueue)) {
+          result.totals.tokens += series.totalTokens;
+          result.totals.cost += series.totalCost;
+          result.totals.jobs += series.jobs;
+        }
+        result.previous.tokens = Number(previous?.totalTokens) || 0;
+        result.previous.cost = Number(previous?.totalCost) || 0;
+        result.previous.jobs = Number(previous?.jobCount) || 0;
+
+        const byName = new Map<string, UsageAnalytics['topJobNames'][number]>();
+        scans.forEach(({ jobs, truncated }, i) => {
+          if (truncated) result.truncated = true;
+          for (const job of jobs) {
+            const usage = (job as any).usage;
+            if (!usage) continue;
+            const { tokens, cost } = usageTotals(usage);
+            const model = typeof usage.model === 'string' && usage.model ? usage.model : 'unknown';
+            result.byModel[model] ??= emptySeries(buckets.length);
+            addTo(result.byModel[model], bucketOf(job.finishedOn!), tokens, cost, 1);
+            const key = `${names[i]}\u0000${job.name}`;
+            const entry = byName.get(key) ?? { queue: names[i], name: job.name, jobs: 0, tokens: 0, cost: 0 };
+            entry.jobs++;
+            entry.tokens += tokens;
+            entry.cost += cost;
+            byName.set(key, entry);
+          }
+        });
+        result.topJobNames = [...byName.values()]
+          .sort((a, b) => b.cost - a.cost || b.tokens - a.tokens)
+          .slice(0, TOP_JOB_NAMES);
+      }
+      result.change = {
+        tokens: relativeChange(result.totals.tokens, result.previous.tokens),
+        cost: relativeChange(result.totals.cost, result.previous.cost),
+        jobs: relativeChange(result.totals.jobs, result.previous.jobs),
+      };
+    } catch (err) {
+      return safeError(err);
+    }
+
+    if (format === 'csv') {
+      return {
+        type: 'text',
+        status: 200,
+        body: usageCsv(result),
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="usage-${start}-${end}.csv"`,
+        },
+      };
+    }
+    return json(200, result);
+  });
+}
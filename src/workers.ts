@@ -0,0 +1,127 @@
+import type { RouteContext } from './core';
+import { json, safeError } from './http';
+
+const DEFAULT_STALE_AFTER_MS = 30000;
+
+export interface WorkerHealth {
+  queue: string;
+  id: string;
+  /** `hostname` or `host` when the worker reports one, else its address. */
+  host: string | null;
+  addr: string | null;
+  pid: number | null;
+  startedAt: number | null;
+  uptimeMs: number | null;
+  /** Null when the worker does not report when it last checked in. */
+  lastHeartbeat: number | null;
+  heartbeatAgeMs: number | null;
+  stale: boolean;
+  concurrency: number | null;
+  activeJobs: number | null;
+  /** `activeJobs / concurrency`. */
+  utilization: number | null;
+}
+
+export interface QueueCapacity {
+  queue: string;
+  workers: number;
+  staleWorkers: number;
+  /** Sum of the concurrency of live workers; null when none of them reports it. */
+  capacity: number | null;
+  /** Jobs in the queue's active state. */
+  active: number;
+  waiting: number;
+  /** `active / capacity`. */
+  utilization: number | null;
+  /**
+   * `no-workers` when nothing live is connected, `saturated` when active jobs fill the capacity
+   * (or, without a known capacity, when jobs wait while every worker is busy), else `ok`.
+   */
+  status: 'no-workers' | 'saturated' | 'ok';
+}
+
+function num(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function str(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+/** Normalize one entry of `queue.getWorkers()`. Heartbeat and concurrency fields are optional. */
+export function workerHealth(queue: string, raw: unknown, now: number, staleAfterMs: number): WorkerHealth {
+  const w = (raw ?? {}) as Record<string, unknown>;
+  const startedAt = num(w.startedAt);
+  const lastHeartbeat = num(w.lastHeartbeat) ?? num(w.heartbeatAt) ?? num(w.lastSeen);
+  const heartbeatAgeMs = lastHeartbeat != null ? Math.max(now - lastHeartbeat, 0) : null;
+  const concurrency = num(w.concurrency);
+  const activeJobs = num(w.activeJobs);
+  return {
+    queue,
+    id: w.id != null ? String(w.id) : '',
+    host: str(w.hostname) ?? str(w.host) ?? str(w.addr),
+    addr: str(w.addr),
+    pid: num(w.pid),
+    startedAt,
+    uptimeMs: startedAt != null ? Math.max(now - startedAt, 0) : num(w.age),
+    lastHeartbeat,
+    heartbeatAgeMs,
+    stale: heartbeatAgeMs != null && heartbeatAgeMs > staleAfterMs,
+    concurrency,
+    activeJobs,
+    utilization: concurrency && activeJobs != null ? activeJobs / concurrency : null,
+  };
+}
+
+export function queueCapacity(queue: string, workers: WorkerHealth[], counts: Record<string, number>): QueueCapacity {
+  const live = workers.filter((w) => !w.stale);
+  const reported = live.filter((w) => w.concurrency != null);
+  const capacity = reported.length ? reported.reduce((sum, w) => sum + w.concurrency!, 0) : null;
+  const active = counts.active ?? 0;
+  const waiting = counts.waiting ?? 0;
+  const busy = capacity != null ? active >= capacity : waiting > 0 && live.every((w) => (w.activeJobs ?? 0) > 0);
+  return {
+    queue,
+    workers: live.length,
+    staleWorkers: workers.length - live.length,
+    capacity,
+    active,
+    waiting,
+    utilization: capacity ? active / capacity : null,
+    status: !live.length ? 'no-workers' : busy ? 'saturated' : 'ok',
+  };
+}
+
+export function workerRoutes(ctx: RouteContext): void {
+  const { queues } = ctx;
+
+  // --- Workers across every queue, with heartbeat age and capacity per queue ---
+  ctx.read('/api/workers', 'queue:read', async (req) => {
+    let staleAfterMs = DEFAULT_STALE_AFTER_MS;
+    if (req.query.staleAfterMs !== undefined) {
+      const raw = req.query.staleAfterMs;
+      if (typeof raw !== 'string' || !/^\d+$/.test(raw)) {
+        return json(400, { error: 'staleAfterMs must be a non-negative integer' });
+      }
+      staleAfterMs = Number(raw);
+    }
+    try {
+      const caller = await ctx.access(req);
+      const now = Date.now();
+      const results = await Promise.all(
+        queues.filter((q) => caller.can('queue:read', q.name)).map(async (q) => {
+          const [list, counts] = await Promise.all([q.getWorkers(), q.getJobCounts()]);
+          const workers = (list as unknown[]).map((w) => workerHealth(q.name, w, now, staleAfterMs));
+          return { workers, capacity: queueCapacity(q.name, workers, counts) };
+        }),
+      );
+      return json(200, {
+        staleAfterMs,
+        queues: results.map((r) => r.capacity),
+        workers: results.flatMap((r) => r.workers),
+      });
+    } catch (err) {
+      return safeError(err);
+    }
+  });
+}
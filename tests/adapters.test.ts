@@ -0,0 +1,237 @@
+import { describe, it, expect, vi } from 'vitest';
+import Fastify from 'fastify';
+import { Hono } from 'hono';
+import Koa from 'koa';
+import request from 'supertest';
+import { createDashboardCore } from '../src/index';
+import { createFastifyDashboard } from '../src/adapters/fastify';
+import { MAX_IMPORT_BODY_BYTES } from '../src/http';
+import { createHonoDashboard } from '../src/adapters/hono';
+import { createKoaDashboard } from '../src/adapters/koa';
+import { mockJob, mockQueue, mockQueueEvents } from './helpers';
+
+describe('createDashboardCore', () => {
+  it('matches routes and decodes params', () => {
+    const core = createDashboardCore([mockQueue('q')] as any);
+    const matched = core.match('GET', '/api/queues/my%20queue/job/42');
+    expect(matched?.route.path).toBe('/api/queues/:name/job/:id');
+    expect(matched?.params).toEqual({ name: 'my queue', id: '42' });
+  });
+
+  it('answers a malformed escape in a param with a 400', async () => {
+    const core = createDashboardCore([mockQueue('q')] as any);
+    const matched = core.match('GET', '/api/queues/%E0%A4%A/jobs')!;
+    const response = await matched.route.handler({
+      method: 'GET', params: matched.params, query: {}, body: undefined, header: () => undefined, raw: {},
+    });
+    expect(response).toMatchObject({ type: 'json', status: 400, body: { error: 'Malformed URL' } });
+  });
+
+  it('raises the body limit on import only, including per cluster', () => {
+    const core = createDashboardCore([mockQueue('q')] as any, { clusters: { eu: { queues: [mockQueue('q')] as any } } });
+    expect(core.match('POST', '/api/queues/q/import')?.route.bodyLimit).toBe(MAX_IMPORT_BODY_BYTES);
+    expect(core.match('POST', '/api/clusters/eu/queues/q/import')?.route.bodyLimit).toBe(MAX_IMPORT_BODY_BYTES);
+    expect(core.match('POST', '/api/queues/q/drain')?.route.bodyLimit).toBeUndefined();
+  });
+
+  it('returns null for unknown routes and methods', () => {
+    const core = createDashboardCore([mockQueue('q')] as any);
+    expect(core.match('GET', '/api/nope')).toBeNull();
+    expect(core.match('PUT', '/api/queues')).toBeNull();
+  });
+
+  it('turns thrown errors into a 500 response', async () => {
+    const core = createDashboardCore([mockQueue('q')] as any, {
+      authorize: () => { throw new Error('auth backend down'); },
+    });
+    const matched = core.match('POST', '/api/queues/q/pause')!;
+    const response = await matched.route.handler({
+      method: 'POST', params: matched.params, query: {}, body: undefined, header: () => undefined, raw: {},
+    });
+    expect(response).toMatchObject({ type: 'json', status: 500, body: { error: 'auth backend down' } });
+  });
+});
+
+describe('Fastify adapter', () => {
+  async function makeApp(queues: unknown[], opts?: Record<string, unknown>) {
+    const app = Fastify();
+    await app.register(createFastifyDashboard(queues as any, opts as any), { prefix: '/dash' });
+    return app;
+  }
+
+  it('serves the UI and queue list', async () => {
+    const app = await makeApp([mockQueue('payments')]);
+    const html = await app.inject({ method: 'GET', url: '/dash/' });
+    expect(html.statusCode).toBe(200);
+    expect(html.headers['content-type']).toMatch(/html/);
+    const res = await app.inject({ method: 'GET', url: '/dash/api/queues' });
+    expect(res.statusCode).toBe(200);
+    expect(res.json()[0].name).toBe('payments');
+  });
+
+  it('passes JSON bodies to mutations', async () => {
+    const q = mockQueue('q');
+    const app = await makeApp([q]);
+    const res = await app.inject({ method: 'POST', url: '/dash/api/queues/q/drain', payload: { delayed: true } });
+    expect(res.statusCode).toBe(200);
+    expect(q.drain).toHaveBeenCalledWith(true);
+  });
+
+  it('accepts import bodies past its own 1 MiB default, and keeps other routes at 100 kB', async () => {
+    const app = await makeApp([mockQueue('q')]);
+    const content = JSON.stringify({ name: 'big', data: { blob: 'x'.repeat(2 * 1024 * 1024) } });
+    const res = await app.inject({ method: 'POST', url: '/dash/api/queues/q/import', payload: { content, dryRun: true } });
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toMatchObject({ total: 1, valid: 1 });
+    const big = await app.inject({ method: 'POST', url: '/dash/api/queues/q/drain', payload: { pad: 'x'.repeat(200 * 1024) } });
+    expect(big.statusCode).toBe(413);
+  });
+
+  it('closes the dashboard with the Fastify instance', async () => {
+    const events = mockQueueEvents('q');
+    const app = await makeApp([mockQueue('q')], { queueEvents: [events] });
+    expect(events.listenerCount('completed')).toBe(1);
+    await app.close();
+    expect(events.listenerCount('completed')).toBe(0);
+  });
+
+  it('honours readOnly and hands the Fastify request to authorize', async () => {
+    const readOnly = await makeApp([mockQueue('q')], { readOnly: true });
+    expect((await readOnly.inject({ method: 'POST', url: '/dash/api/queues/q/pause' })).statusCode).toBe(403);
+
+    const authorize = vi.fn().mockReturnValue(false);
+    const app = await makeApp([mockQueue('q')], { authorize });
+    const res = await app.inject({ method: 'POST', url: '/dash/api/queues/q/pause', headers: { 'x-user': 'ops' } });
+    expect(res.statusCode).toBe(403);
+    expect(authorize.mock.calls[0][0].headers['x-user']).toBe('ops');
+    expect(authorize.mock.calls[0][1]).toBe('queue:pause');
+  });
+
+  it('streams SSE job output', async () => {
+    const q = mockQueue('q', { readStream: vi.fn().mockResolvedValue([{ id: '1-0', fields: { chunk: 'hi' } }]) });
+    const app = await makeApp([q]);
+    const res = await app.inject({ method: 'GET', url: '/dash/api/queues/q/jobs/j1/stream' });
+    expect(res.headers['content-type']).toBe('text/event-stream');
+    expect(res.body).toContain('"chunk":"hi"');
+  });
+});
+
+describe('Hono adapter', () => {
+  function makeApp(queues: unknown[], opts?: Record<string, unknown>) {
+    const app = new Hono();
+    app.route('/dash', createHonoDashboard(queues as any, opts as any));
+    return app;
+  }
+
+  it('serves the queue list and single jobs', async () => {
+    const job = mockJob('j1');
+    const app = makeApp([mockQueue('q', { getJob: vi.fn().mockResolvedValue(job) })]);
+    const list = await app.request('/dash/api/queues');
+    expect(list.status).toBe(200);
+    expect((await list.json())[0].name).toBe('q');
+    const res = await app.request('/dash/api/queues/q/job/j1');
+    expect(res.status).toBe(200);
+    expect((await res.json()).id).toBe('j1');
+  });
+
+  it('parses JSON bodies and rejects malformed ones', async () => {
+    const q = mockQueue('q');
+    const app = makeApp([q]);
+    const ok = await app.request('/dash/api/queues/q/drain', {
+      method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ delayed: true }),
+    });
+    expect(ok.status).toBe(200);
+    expect(q.drain).toHaveBeenCalledWith(true);
+    const bad = await app.request('/dash/api/queues/q/drain', {
+      method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{nope',
+    });
+    expect(bad.status).toBe(400);
+  });
+
+  it('limits bodies by bytes, with the large limit on import only', async () => {
+    const app = makeApp([mockQueue('q')]);
+    // 60k characters, but 120 kB once encoded.
+    const big = await app.request('/dash/api/queues/q/drain', {
+      method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ pad: 'é'.repeat(60 * 1024) }),
+    });
+    expect(big.status).toBe(413);
+    const content = JSON.stringify({ name: 'big', data: { blob: 'x'.repeat(2 * 1024 * 1024) } });
+    const imported = await app.request('/dash/api/queues/q/import', {
+      method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ content, dryRun: true }),
+    });
+    expect(imported.status).toBe(200);
+    expect(await imported.json()).toMatchObject({ total: 1, valid: 1 });
+  });
+
+  it('hands the Hono context to authorize', async () => {
+    const authorize = vi.fn().mockReturnValue(false);
+    const app = makeApp([mockQueue('q')], { authorize });
+    const res = await app.request('/dash/api/queues/q/obliterate', { method: 'POST' });
+    expect(res.status).toBe(403);
+    expect(typeof authorize.mock.calls[0][0].req.header).toBe('function');
+  });
+
+  it('streams SSE job output', async () => {
+    const q = mockQueue('q', { readStream: vi.fn().mockResolvedValue([{ id: '1-0', fields: { chunk: 'hi' } }]) });
+    const app = makeApp([q]);
+    const res = await app.request('/dash/api/queues/q/jobs/j1/stream');
+    expect(res.headers.get('content-type')).toBe('text/event-stream');
+    expect(await res.text()).toContain('"chunk":"hi"');
+  });
+});
+
+describe('Koa adapter', () => {
+  function makeApp(queues: unknown[], opts?: Record<string, unknown>) {
+    const app = new Koa();
+    app.use(createKoaDashboard(queues as any, { prefix: '/dash', ...opts } as any));
+    app.use((ctx) => { ctx.status = 418; });
+    return app.callback();
+  }
+
+  it('serves the queue list under the prefix', async () => {
+    const res = await request(makeApp([mockQueue('q')])).get('/dash/api/queues');
+    expect(res.status).toBe(200);
+    expect(res.body[0].name).toBe('q');
+  });
+
+  it('answers a malformed URL with a 400 and an oversized body with a 413', async () => {
+    const app = makeApp([mockQueue('q')]);
+    expect((await request(app).get('/dash/api/queues/%E0%A4%A/jobs')).status).toBe(400);
+    const big = await request(app).post('/dash/api/queues/q/drain')
+      .set('Content-Type', 'application/json')
+      .send(JSON.stringify({ pad: 'x'.repeat(200 * 1024) }));
+    expect(big.status).toBe(413);
+  });
+
+  it('accepts large bodies on import', async () => {
+    const content = JSON.stringify({ name: 'big', data: { blob: 'x'.repeat(2 * 1024 * 1024) } });
+    const res = await request(makeApp([mockQueue('q')])).post('/dash/api/queues/q/import').send({ content, dryRun: true });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ total: 1, valid: 1 });
+  });
+
+  it('falls through to the next middleware outside the dashboard', async () => {
+    const app = makeApp([mockQueue('q')]);
+    expect((await request(app).get('/other')).status).toBe(418);
+    expect((await request(app).get('/dash/api/unknown')).status).toBe(418);
+  });
+
+  it('reads JSON bodies without a body parser', async () => {
+    const q = mockQueue('q');
+    const res = await request(makeApp([q])).post('/dash/api/queues/q/clean').send({ grace: 1000, type: 'failed' });
+    expect(res.status).toBe(200);
+    expect(q.clean).toHaveBeenCalledWith(1000, 100, 'failed');
+  });
+
+  it('honours readOnly and hands the Koa context to authorize', async () => {
+    const readOnly = await request(makeApp([mockQueue('q')], { readOnly: true })).post('/dash/api/queues/q/pause');
+    expect(readOnly.status).toBe(403);
+
+    const authorize = vi.fn().mockReturnValue(true);
+    const q = mockQueue('q');
+    const res = await request(makeApp([q], { authorize })).post('/dash/api/queues/q/resume');
+    expect(res.status).toBe(200);
+    expect(authorize.mock.calls[0][0].path).toBe('/dash/api/queues/q/resume');
+    expect(q.resume).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import { callbackAlertNotifier, webhookAlertNotifier } from '../src/index';
+import type { AlertNotification } from '../src/index';
+import { createAlertEngine } from '../src/alerts';
+import type { AlertEngine, AlertOptions } from '../src/alerts';
+import { createEventHub } from '../src/events';
+import { makeApp, mockQueue, mockQueueEvents } from './helpers';
+
+const engines: AlertEngine[] = [];
+afterEach(() => {
+  engines.splice(0).forEach((e) => e.stop());
+  vi.restoreAllMocks();
+});
+
+function setup(queues: any[], opts: Omit<AlertOptions, 'notifiers'>) {
+  const qe = mockQueueEvents(queues[0].name);
+  const hub = createEventHub([qe as any], new Map(queues.map((q) => [q.name, q])));
+  const sent: AlertNotification[] = [];
+  const engine = createAlertEngine(queues, hub, { ...opts, notifiers: callbackAlertNotifier((n) => { sent.push(n); }) });
+  engines.push(engine);
+  return { qe, engine, sent };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('alert engine', () => {
+  it('fires and resolves a job count rule', async () => {
+    const getJobCounts = vi.fn().mockResolvedValue({ waiting: 50 });
+    const q = mockQueue('q', { getJobCounts });
+    const { engine, sent } = setup([q], {
+      rules: [{ name: 'backlog', type: 'jobCount', state: 'waiting', threshold: 100, severity: 'critical' }],
+    });
+    await engine.evaluate();
+    expect(engine.list()[0]).toMatchObject({ rule: 'backlog', queue: 'q', status: 'ok', value: 50 });
+
+    getJobCounts.mockResolvedValue({ waiting: 150 });
+    await engine.evaluate();
+    expect(engine.list()[0]).toMatchObject({ status: 'firing', value: 150, threshold: 100 });
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ status: 'firing', rule: 'backlog', severity: 'critical', queue: 'q', value: 150 });
+
+    getJobCounts.mockResolvedValue({ waiting: 10 });
+    await engine.evaluate();
+    expect(sent[1]).toMatchObject({ status: 'resolved', rule: 'backlog', since: sent[0].since });
+    expect(engine.list()[0].status).toBe('ok');
+  });
+
+  it('fires when a queue has no workers', async () => {
+    const q = mockQueue('q', { getWorkers: vi.fn().mockResolvedValue([]) });
+    const { engine, sent } = setup([q], { rules: [{ name: 'no-workers', type: 'workers' }] });
+    await engine.evaluate();
+    expect(sent.map((n) => n.status)).toEqual(['firing']);
+    expect(sent[0].message).toContain('0 workers');
+  });
+
+  it('fires on events as they arrive and resolves once the window passes', async () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const { qe, engine, sent } = setup([mockQueue('q')], {
+      rules: [{ name: 'failure-spike', type: 'eventRate', event: 'failed', threshold: 2, windowMs: 60_000 }],
+    });
+    qe.emit('failed', { jobId: '1' });
+    qe.emit('completed', { jobId: '2' });
+    await flush();
+    expect(sent).toHaveLength(0);
+    qe.emit('failed', { jobId: '3' });
+    await flush();
+    expect(sent).toMatchObject([{ status: 'firing', value: 2 }]);
+
+    now.mockReturnValue(1_061_000);
+    await engine.evaluate();
+    expect(sent[1]).toMatchObject({ status: 'resolved', value: 0 });
+  });
+
+  it('suppresses repeat notifications within the cooldown', async () => {
+    const getJobCounts = vi.fn().mockResolvedValue({ failed: 5 });
+    const { engine, sent } = setup([mockQueue('q', { getJobCounts })], {
+      rules: [{ name: 'failed', type: 'jobCount', state: 'failed', threshold: 1, cooldownMs: 60_000 }],
+    });
+    await engine.evaluate();
+    getJobCounts.mockResolvedValue({ failed: 0 });
+    await engine.evaluate();
+    getJobCounts.mockResolvedValue({ failed: 5 });
+    await engine.evaluate();
+    getJobCounts.mockResolvedValue({ failed: 0 });
+    await engine.evaluate();
+    // The second firing (and so its resolution) fall inside the cooldown.
+    expect(sent.map((n) => n.status)).toEqual(['firing', 'resolved']);
+    expect(engine.history()).toHaveLength(2);
+  });
+
+  it('notifies an alert that keeps firing once its cooldown ends', async () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const getJobCounts = vi.fn().mockResolvedValue({ failed: 5 });
+    const { engine, sent } = setup([mockQueue('q', { getJobCounts })], {
+      rules: [{ name: 'failed', type: 'jobCount', state: 'failed', threshold: 1, cooldownMs: 60_000 }],
+    });
+    await engine.evaluate();
+    getJobCounts.mockResolvedValue({ failed: 0 });
+    await engine.evaluate();
+    getJobCounts.mockResolvedValue({ failed: 5 });
+    now.mockReturnValue(1_030_000);
+    await engine.evaluate();
+    expect(sent).toHaveLength(2);
+
+    now.mockReturnValue(1_061_000);
+    await engine.evaluate();
+    expect(sent.map((n) => n.status)).toEqual(['firing', 'resolved', 'firing']);
+    expect(sent[2]).toMatchObject({ since: 1_030_000, timestamp: 1_061_000 });
+    await engine.evaluate();
+    expect(sent).toHaveLength(3);
+  });
+
+  it('rejects unknown rule types and states', () => {
+    const hub = createEventHub([], new Map());
+    expect(() => createAlertEngine([], hub, { rules: [{ name: 'x', type: 'queueSize' } as any] }))
+      .toThrow('Alert rule "x" has unknown type "queueSize"');
+    expect(() => createAlertEngine([], hub, { rules: [{ name: 'y', type: 'jobCount', state: 'stuck', threshold: 1 } as any] }))
+      .toThrow('Alert rule "y" watches unknown state "stuck"');
+  });
+
+  it('only watches the listed queues and survives failing notifiers', async () => {
+    const a = mockQueue('a', { getWorkers: vi.fn().mockResolvedValue([]) });
+    const b = mockQueue('b', { getWorkers: vi.fn().mockResolvedValue([]) });
+    const hub = createEventHub([], new Map());
+    const engine = createAlertEngine([a, b] as any, hub, {
+      rules: [{ name: 'w', type: 'workers', queues: ['b'] }],
+      notifiers: callbackAlertNotifier(() => { throw new Error('down'); }),
+    });
+    engines.push(engine);
+    await engine.evaluate();
+    expect(engine.list().map((s) => s.queue)).toEqual(['b']);
+    expect(a.getWorkers).not.toHaveBeenCalled();
+  });
+
+  it('posts notifications to a webhook', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 204 }));
+    await webhookAlertNotifier('https://hooks.example.com/x', { headers: { Authorization: 'Bearer t' } })
+      .notify({ status: 'firing', rule: 'r' } as AlertNotification);
+    expect(fetchMock).toHaveBeenCalledWith('https://hooks.example.com/x', expect.objectContaining({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer t' },
+    }));
+    expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string)).toMatchObject({ status: 'firing', rule: 'r' });
+    expect(fetchMock.mock.calls[0][1]!.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('keeps evaluating while a notifier hangs', async () => {
+    const a = mockQueue('a', { getWorkers: vi.fn().mockResolvedValue([]) });
+    const b = mockQueue('b', { getWorkers: vi.fn().mockResolvedValue([]) });
+    const hanging = vi.fn(() => new Promise<void>(() => {}));
+    const engine = createAlertEngine([a, b] as any, createEventHub([], new Map()), {
+      rules: [{ name: 'w', type: 'workers' }],
+      notifiers: callbackAlertNotifier(hanging),
+    });
+    engines.push(engine);
+    await engine.evaluate();
+    expect(hanging).toHaveBeenCalledTimes(2);
+    expect(engine.list().map((s) => [s.queue, s.status])).toEqual([['a', 'firing'], ['b', 'firing']]);
+  });
+});
+
+describe('GET /api/alerts', () => {
+  it('returns 404 when alerting is off', async () => {
+    const app = makeApp([mockQueue('q')]);
+    const res = await request(app).get('/dash/api/alerts');
+    expect(res.status).toBe(404);
+    expect(res.body.error).toBe('Alerting is not enabled');
+  });
+
+  it('lists alert states with firing ones first', async () => {
+    const a = mockQueue('a', { getWorkers: vi.fn().mockResolvedValue([{ id: 'w' }]) });
+    const b = mockQueue('b', { getWorkers: vi.fn().mockResolvedValue([]) });
+    const app = makeApp([a, b], { alerts: { rules: [{ name: 'w', type: 'workers' }] } });
+    await flush();
+    const res = await request(app).get('/dash/api/alerts');
+    expect(res.status).toBe(200);
+    expect(res.body.firing).toBe(1);
+    expect(res.body.alerts.map((s: any) => [s.queue, s.status])).toEqual([['b', 'firing'], ['a', 'ok']]);
+    expect(res.body.history[0]).toMatchObject({ status: 'firing', queue: 'b' });
+  });
+});
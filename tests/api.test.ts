@@ -1,86 +1,7 @@
 import { describe, it, expect, vi } from 'vitest';
-import express from 'express';
 import request from 'supertest';
-import { createDashboard } from '../src/index';
-
-// --- Mock factories ---
-
-function mockJob(id: string, overrides: Record<string, unknown> = {}) {
-  return {
-    id,
-    name: 'test-job',
-    data: { key: 'value' },
-    opts: {},
-    progress: 0,
-    attemptsMade: 0,
-    failedReason: undefined,
-    returnvalue: undefined,
-    timestamp: Date.now(),
-    processedOn: undefined,
-    finishedOn: undefined,
-    remove: vi.fn().mockResolvedValue(undefined),
-    retry: vi.fn().mockResolvedValue(undefined),
-    promote: vi.fn().mockResolvedValue(undefined),
-    getState: vi.fn().mockResolvedValue('waiting'),
-    ...overrides,
-  };
-}
-
-function mockQueue(name: string, overrides: Record<string, unknown> = {}) {
-  return {
-    name,
-    getJobCounts: vi.fn().mockResolvedValue({ waiting: 5, active: 2, delayed: 1, completed: 10, failed: 3 }),
-    isPaused: vi.fn().mockResolvedValue(false),
-    getJobs: vi.fn().mockResolvedValue([]),
-    getJob: vi.fn().mockResolvedValue(null),
-    getJobLogs: vi.fn().mockResolvedValue({ logs: [], count: 0 }),
-    pause: vi.fn().mockResolvedValue(undefined),
-    resume: vi.fn().mockResolvedValue(undefined),
-    obliterate: vi.fn().mockResolvedValue(undefined),
-    drain: vi.fn().mockResolvedValue(undefined),
-    retryJobs: vi.fn().mockResolvedValue(5),
-    clean: vi.fn().mockResolvedValue(['1', '2']),
-    getWorkers: vi.fn().mockResolvedValue([]),
-    getRepeatableJobs: vi.fn().mockResolvedValue([]),
-    getDeadLetterJobs: vi.fn().mockResolvedValue([]),
-    getMetrics: vi.fn().mockResolvedValue({ count: 42, data: [], meta: { resolution: 'minute' } }),
-    getFlowUsage: vi.fn().mockResolvedValue({ tokens: {}, totalTokens: 0, costs: {}, totalCost: 0, jobCount: 0, models: {} }),
-    getFlowBudget: vi.fn().mockResolvedValue(null),
-    getUsageSummary: vi.fn().mockResolvedValue({
-      startTime: 0,
-      endTime: 60000,
-      bucketSizeMs: 60000,
-      queues: [name],
-      jobCount: 1,
-      tokens: { input: 100 },
-      totalTokens: 100,
-      costs: { total: 0.01 },
-      totalCost: 0.01,
-      costUnit: 'usd',
-      models: { 'gpt-5.4': 1 },
-      perQueue: {
-        [name]: {
-          jobCount: 1,
-          tokens: { input: 100 },
-          totalTokens: 100,
-          costs: { total: 0.01 },
-          totalCost: 0.01,
-          costUnit: 'usd',
-          models: { 'gpt-5.4': 1 },
-        },
-      },
-    }),
-    readStream: vi.fn().mockResolvedValue([]),
-    searchJobs: vi.fn().mockResolvedValue([]),
-    ...overrides,
-  };
-}
-
-function makeApp(queues: unknown[], opts?: Record<string, unknown>) {
-  const app = express();
-  app.use('/dash', createDashboard(queues as any, opts as any));
-  return app;
-}
+import { mockJob, mockQueue, makeApp } from './helpers';
+import { FLOW_INDEX_TTL_MS, MAX_FLOW_SCAN } from '../src/flows';
 
 // --- Tests ---
 
@@ -123,9 +44,19 @@ describe('GET /api/queues/:name/jobs', () => {
     const app = makeApp([q]);
     const res = await request(app).get('/dash/api/queues/q/jobs?state=waiting');
     expect(res.status).toBe(200);
+    expect(res.body.items).toHaveLength(1);
+    expect(res.body.items[0].id).toBe('j1');
+    expect(res.body.items[0].name).toBe('test-job');
+    expect(res.body.nextCursor).toBeNull();
+    expect(res.body.totals).toEqual({ waiting: 5, active: 2, delayed: 1, completed: 10, failed: 3 });
+  });
+
+  it('keeps the plain array response behind format=array', async () => {
+    const q = mockQueue('q', { getJobs: vi.fn().mockResolvedValue([mockJob('j1')]) });
+    const res = await request(makeApp([q])).get('/dash/api/queues/q/jobs?state=waiting&format=array');
+    expect(res.status).toBe(200);
     expect(res.body).toHaveLength(1);
-    expect(res.body[0].id).toBe('j1');
-    expect(res.body[0].name).toBe('test-job');
+    expect(res.body[0]).toMatchObject({ id: 'j1', state: 'waiting' });
   });
 
   it('returns 404 for unknown queue', async () => {
@@ -144,14 +75,14 @@ describe('GET /api/queues/:name/jobs', () => {
   it('clamps pagination to MAX_PAGE_SIZE', async () => {
     const q = mockQueue('q');
     const app = makeApp([q]);
-    await request(app).get('/dash/api/queues/q/jobs?state=waiting&start=0&end=99999');
+    await request(app).get('/dash/api/queues/q/jobs?state=waiting&start=0&end=99999&format=array');
     expect(q.getJobs).toHaveBeenCalledWith('waiting', 0, 200);
   });
 
   it('fetches all states when no state param provided', async () => {
     const q = mockQueue('q');
     const app = makeApp([q]);
-    const res = await request(app).get('/dash/api/queues/q/jobs?start=0&end=50');
+    const res = await request(app).get('/dash/api/queues/q/jobs?start=0&end=50&format=array');
     expect(res.status).toBe(200);
     expect(q.getJobs).toHaveBeenCalledTimes(5);
   });
@@ -399,6 +330,11 @@ describe('readOnly mode', () => {
     ['post', '/dash/api/queues/q/drain'],
     ['post', '/dash/api/queues/q/retry-all'],
     ['post', '/dash/api/queues/q/clean'],
+    ['post', '/dash/api/queues/q/jobs'],
+    ['post', '/dash/api/queues/q/jobs/1/data'],
+    ['post', '/dash/api/queues/q/import'],
+    ['post', '/dash/api/queues/q/dlq/requeue'],
+    ['post', '/dash/api/queues/q/dlq/purge'],
   ];
 
   it('blocks all mutation routes with 403', async () => {
@@ -533,6 +469,94 @@ describe('GET /api/queues/:name/flows/:id/budget', () => {
   });
 });
 
+describe('GET /api/queues/:name/flows/:id/tree', () => {
+  // parent (queue a) -> child c1 (queue b, completed) and c2 (queue a, failed) -> grandchild g1 (queue b, active)
+  function flowQueues() {
+    const parent = mockJob('p1', { getState: vi.fn().mockResolvedValue('waiting-children') });
+    const c1 = mockJob('c1', {
+      parentId: 'p1', parentQueue: 'a', processedOn: 1000, finishedOn: 1500,
+      usage: { totalTokens: 100, totalCost: 0.5 }, getState: vi.fn().mockResolvedValue('completed'),
+    });
+    const c2 = mockJob('c2', { parentId: 'p1', parentQueue: 'a', failedReason: 'boom', usage: { tokens: { input: 10, output: 5 } } });
+    const g1 = mockJob('g1', { parentId: 'c2', parentQueue: 'a', usage: { totalTokens: 20, totalCost: 0.25 } });
+    const byId: Record<string, unknown> = { p1: parent, c1, c2, g1 };
+    const a = mockQueue('a', {
+      getJob: vi.fn().mockImplementation(async (id: string) => (id === 'p1' || id === 'c2' ? byId[id] : null)),
+      getJobs: vi.fn().mockImplementation(async (state: string) => (state === 'failed' ? [c2] : [])),
+    });
+    const b = mockQueue('b', {
+      getJob: vi.fn().mockImplementation(async (id: string) => (id === 'c1' || id === 'g1' ? byId[id] : null)),
+      getJobs: vi.fn().mockImplementation(async (state: string) =>
+        state === 'completed' ? [c1] : state === 'active' ? [g1] : []),
+    });
+    return [a, b];
+  }
+
+  it('builds the whole tree from any job in the flow, across queues', async () => {
+    const app = makeApp(flowQueues());
+    const res = await request(app).get('/dash/api/queues/b/flows/g1/tree');
+    expect(res.status).toBe(200);
+    expect(res.body.rootReached).toBe(true);
+    expect(res.body.partial).toBe(false);
+    const root = res.body.root;
+    expect(root).toMatchObject({ id: 'p1', queue: 'a', state: 'waiting-children' });
+    expect(root.children.map((c: any) => c.id)).toEqual(['c1', 'c2']);
+    const [c1, c2] = root.children;
+    expect(c1).toMatchObject({ queue: 'b', state: 'completed', duration: 500, blocking: false });
+    expect(c2).toMatchObject({ queue: 'a', state: 'failed', failedReason: 'boom', blocking: true });
+    expect(c2.children[0]).toMatchObject({ id: 'g1', queue: 'b', state: 'active' });
+  });
+
+  it('rolls up tokens, cost and pending jobs per subtree', async () => {
+    const app = makeApp(flowQueues());
+    const res = await request(app).get('/dash/api/queues/a/flows/p1/tree');
+    const root = res.body.root;
+    expect(root.subtree).toEqual({ jobs: 4, pending: 3, tokens: 135, cost: 0.75 });
+    expect(root.children[1].subtree).toEqual({ jobs: 2, pending: 2, tokens: 35, cost: 0.25 });
+  });
+
+  it('scans children without payloads and reuses the scan for a few seconds', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const [a, b] = flowQueues();
+      const app = makeApp([a, b]);
+      await request(app).get('/dash/api/queues/a/flows/p1/tree');
+      await request(app).get('/dash/api/queues/b/flows/g1/tree');
+      expect(a.getJobs).toHaveBeenCalledTimes(5);
+      expect(a.getJobs).toHaveBeenCalledWith('failed', 0, MAX_FLOW_SCAN - 1, { excludeData: true });
+      vi.setSystemTime(Date.now() + FLOW_INDEX_TTL_MS);
+      await request(app).get('/dash/api/queues/a/flows/p1/tree');
+      expect(a.getJobs).toHaveBeenCalledTimes(10);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('returns a single node for a job outside any flow', async () => {
+    const job = mockJob('solo');
+    const q = mockQueue('q', { getJob: vi.fn().mockResolvedValue(job) });
+    const res = await request(makeApp([q])).get('/dash/api/queues/q/flows/solo/tree');
+    expect(res.status).toBe(200);
+    expect(res.body.root).toMatchObject({ id: 'solo', children: [], subtree: { jobs: 1, pending: 1 } });
+  });
+
+  it('stops at a parent on a queue that is not mounted', async () => {
+    const job = mockJob('c', { parentId: 'p', parentQueue: 'elsewhere' });
+    const q = mockQueue('q', { getJob: vi.fn().mockResolvedValue(job) });
+    const res = await request(makeApp([q])).get('/dash/api/queues/q/flows/c/tree');
+    expect(res.body.rootReached).toBe(false);
+    expect(res.body.root.id).toBe('c');
+  });
+
+  it('returns 404 for an unknown queue or job', async () => {
+    const app = makeApp([mockQueue('q')]);
+    expect((await request(app).get('/dash/api/queues/nope/flows/x/tree')).status).toBe(404);
+    const res = await request(app).get('/dash/api/queues/q/flows/x/tree');
+    expect(res.status).toBe(404);
+    expect(res.body.error).toBe('Job not found');
+  });
+});
+
 describe('GET /api/usage/summary', () => {
   it('returns a rolling usage summary across mounted queues', async () => {
     const q = mockQueue('q');
@@ -578,4 +602,208 @@ describe('GET /api/queues/:name/jobs/:id/stream', () => {
     const res = await request(app).get('/dash/api/queues/nonexistent/jobs/j1/stream');
     expect(res.status).toBe(404);
   });
+
+  it('keeps tailing until the job finishes, then sends an end event', async () => {
+    const job = mockJob('j1', {
+      getState: vi.fn().mockResolvedValueOnce('active').mockResolvedValue('completed'),
+    });
+    const readStream = vi.fn()
+      .mockResolvedValueOnce([{ id: '1-0', fields: { chunk: 'hel' } }])
+      .mockResolvedValueOnce([{ id: '2-0', fields: { chunk: 'lo' } }])
+      .mockResolvedValue([]);
+    const q = mockQueue('q', { readStream, getJob: vi.fn().mockResolvedValue(job) });
+    const res = await request(makeApp([q])).get('/dash/api/queues/q/jobs/j1/stream');
+    expect(res.status).toBe(200);
+    expect(res.text).toContain('id: 1-0');
+    expect(res.text).toContain('id: 2-0');
+    expect(res.text).toContain('event: end\ndata: {"state":"completed"}');
+    expect(readStream).toHaveBeenNthCalledWith(2, 'j1', { lastId: '1-0', count: 100 });
+  });
+
+  it('drains every remaining page before sending the end event', async () => {
+    const page = (from: number, size: number) => Array.from({ length: size }, (_, i) => ({ id: `${from + i}-0`, fields: { n: from + i } }));
+    const readStream = vi.fn()
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce(page(1, 100))
+      .mockResolvedValueOnce(page(101, 50));
+    const q = mockQueue('q', { readStream, getJob: vi.fn().mockResolvedValue(mockJob('j1', { getState: vi.fn().mockResolvedValue('failed') })) });
+    const res = await request(makeApp([q])).get('/dash/api/queues/q/jobs/j1/stream');
+    expect(res.text.match(/event: chunk/g)).toHaveLength(150);
+    expect(res.text.indexOf('id: 150-0')).toBeLessThan(res.text.indexOf('event: end'));
+    expect(readStream).toHaveBeenNthCalledWith(3, 'j1', { lastId: '100-0', count: 100 });
+  });
+
+  it('resumes from Last-Event-ID in preference to ?lastId', async () => {
+    const readStream = vi.fn().mockResolvedValue([]);
+    const q = mockQueue('q', { readStream });
+    await request(makeApp([q])).get('/dash/api/queues/q/jobs/j1/stream?lastId=1-0').set('Last-Event-ID', '5-0');
+    expect(readStream).toHaveBeenNthCalledWith(1, 'j1', { lastId: '5-0', count: 100 });
+  });
+
+  it('answers with an error when the stream cannot be read', async () => {
+    const q = mockQueue('q', { readStream: vi.fn().mockRejectedValue(new Error('boom')) });
+    const res = await request(makeApp([q])).get('/dash/api/queues/q/jobs/j1/stream');
+    expect(res.status).toBe(500);
+  });
+});
+
+describe('POST /api/queues/:name/jobs/bulk', () => {
+  it('applies an action to explicit ids and reports per-job results', async () => {
+    const j1 = mockJob('j1');
+    const j2 = mockJob('j2', { retry: vi.fn().mockRejectedValue(new Error('not failed')) });
+    const q = mockQueue('q', {
+      getJob: vi.fn().mockImplementation((id: string) => Promise.resolve(({ j1, j2 } as Record<string, unknown>)[id] ?? null)),
+    });
+    const app = makeApp([q]);
+    const res = await request(app)
+      .post('/dash/api/queues/q/jobs/bulk')
+      .send({ action: 'retry', ids: ['j1', 'j2', 'missing'] });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ action: 'retry', total: 3, succeeded: 1, failed: 2 });
+    expect(res.body.results).toEqual([
+      { id: 'j1', status: 'ok' },
+      { id: 'j2', status: 'error', error: 'not failed' },
+      { id: 'missing', status: 'not_found' },
+    ]);
+    expect(j1.retry).toHaveBeenCalled();
+  });
+
+  it('resolves targets from a filter through searchJobs', async () => {
+    const jobs = [mockJob('a'), mockJob('b')];
+    const q = mockQueue('q', { searchJobs: vi.fn().mockResolvedValue(jobs) });
+    const app = makeApp([q]);
+    const res = await request(app)
+      .post('/dash/api/queues/q/jobs/bulk')
+      .send({ action: 'remove', filter: { state: 'failed', name: 'charge', data: { tenant: 't1' } } });
+    expect(res.status).toBe(200);
+    expect(res.body.succeeded).toBe(2);
+    expect(q.searchJobs).toHaveBeenCalledWith(expect.objectContaining({ state: 'failed', name: 'charge', data: { tenant: 't1' } }));
+    expect(jobs[0].remove).toHaveBeenCalled();
+    expect(q.getJob).not.toHaveBeenCalled();
+  });
+
+  it('passes priority and delay arguments', async () => {
+    const job = mockJob('j1', { changePriority: vi.fn().mockResolvedValue(undefined), changeDelay: vi.fn().mockResolvedValue(undefined) });
+    const q = mockQueue('q', { getJob: vi.fn().mockResolvedValue(job) });
+    const app = makeApp([q]);
+    await request(app).post('/dash/api/queues/q/jobs/bulk').send({ action: 'changePriority', ids: ['j1'], priority: 4 });
+    await request(app).post('/dash/api/queues/q/jobs/bulk').send({ action: 'changeDelay', ids: ['j1'], delay: 500 });
+    expect(job.changePriority).toHaveBeenCalledWith(4);
+    expect(job.changeDelay).toHaveBeenCalledWith(500);
+  });
+
+  it('validates the request', async () => {
+    const app = makeApp([mockQueue('q')]);
+    const post = (body: unknown) => request(app).post('/dash/api/queues/q/jobs/bulk').send(body as object);
+    expect((await post({ action: 'explode', ids: ['1'] })).status).toBe(400);
+    expect((await post({ action: 'retry' })).status).toBe(400);
+    expect((await post({ action: 'retry', filter: {} })).status).toBe(400);
+    expect((await post({ action: 'retry', filter: { state: 'bogus' } })).status).toBe(400);
+    expect((await post({ action: 'changePriority', ids: ['1'] })).status).toBe(400);
+    expect((await request(app).post('/dash/api/queues/nope/jobs/bulk').send({ action: 'retry', ids: ['1'] })).status).toBe(404);
+  });
+
+  it('checks every job through authorize with the per-job action string', async () => {
+    const job = mockJob('j1');
+    const q = mockQueue('q', { getJob: vi.fn().mockResolvedValue(job) });
+    const authorize = vi.fn().mockReturnValueOnce(true).mockReturnValueOnce(false);
+    const app = makeApp([q], { authorize });
+    const res = await request(app).post('/dash/api/queues/q/jobs/bulk').send({ action: 'promote', ids: ['j1', 'j2'] });
+    expect(authorize).toHaveBeenCalledTimes(2);
+    expect(authorize).toHaveBeenCalledWith(expect.anything(), 'job:promote');
+    expect(res.body.results.map((r: any) => r.status)).toEqual(['ok', 'denied']);
+  });
+
+  it('is blocked in readOnly mode', async () => {
+    const app = makeApp([mockQueue('q')], { readOnly: true });
+    const res = await request(app).post('/dash/api/queues/q/jobs/bulk').send({ action: 'retry', ids: ['1'] });
+    expect(res.status).toBe(403);
+  });
+
+  it('records one audit entry per job', async () => {
+    const q = mockQueue('q', { getJob: vi.fn().mockResolvedValue(mockJob('x')) });
+    const app = makeApp([q], { audit: {} });
+    await request(app).post('/dash/api/queues/q/jobs/bulk').send({ action: 'remove', ids: ['a', 'b'] });
+    const res = await request(app).get('/dash/api/audit');
+    expect(res.body.map((e: any) => [e.action, e.jobId])).toEqual([['job:remove', 'b'], ['job:remove', 'a']]);
+  });
+});
+
+describe('POST /api/queues/:name/jobs', () => {
+  it('adds a job with the supported opts', async () => {
+    const q = mockQueue('q', { add: vi.fn().mockResolvedValue({ id: '42' }) });
+    const app = makeApp([q]);
+    const res = await request(app)
+      .post('/dash/api/queues/q/jobs')
+      .send({ name: 'charge', data: { amount: 5 }, opts: { delay: 1000, priority: 2, attempts: 3, backoff: { type: 'exponential', delay: 500 } } });
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ status: 'ok', id: '42' });
+    expect(q.add).toHaveBeenCalledWith('charge', { amount: 5 }, {
+      delay: 1000, priority: 2, attempts: 3, backoff: { type: 'exponential', delay: 500 },
+    });
+  });
+
+  it('validates the name and opts', async () => {
+    const q = mockQueue('q', { add: vi.fn() });
+    const app = makeApp([q]);
+    const post = (body: unknown) => request(app).post('/dash/api/queues/q/jobs').send(body as object);
+    expect((await post({ data: {} })).status).toBe(400);
+    expect((await post({ name: 'x', opts: { delay: -1 } })).status).toBe(400);
+    expect((await post({ name: 'x', opts: { attempts: 1.5 } })).status).toBe(400);
+    expect((await post({ name: 'x', opts: { backoff: { type: 'linear', delay: 1 } } })).status).toBe(400);
+    expect((await request(app).post('/dash/api/queues/nope/jobs').send({ name: 'x' })).status).toBe(404);
+    expect(q.add).not.toHaveBeenCalled();
+  });
+
+  it('rejects data that does not match the queue schema', async () => {
+    const q = mockQueue('q', { add: vi.fn().mockResolvedValue({ id: '1' }) });
+    const app = makeApp([q], {
+      jobSchemas: { q: { type: 'object', required: ['amount'], properties: { amount: { type: 'number' } } } },
+    });
+    const res = await request(app).post('/dash/api/queues/q/jobs').send({ name: 'charge', data: { amount: 'five' } });
+    expect(res.status).toBe(400);
+    expect(res.body.details).toEqual(['$.amount must be number']);
+    expect(q.add).not.toHaveBeenCalled();
+    expect((await request(app).post('/dash/api/queues/q/jobs').send({ name: 'charge', data: { amount: 5 } })).status).toBe(200);
+  });
+
+  it('checks authorize with job:add', async () => {
+    const authorize = vi.fn().mockReturnValue(false);
+    const app = makeApp([mockQueue('q', { add: vi.fn() })], { authorize });
+    const res = await request(app).post('/dash/api/queues/q/jobs').send({ name: 'x' });
+    expect(res.status).toBe(403);
+    expect(authorize).toHaveBeenCalledWith(expect.anything(), 'job:add');
+  });
+});
+
+describe('POST /api/queues/:name/jobs/:id/data', () => {
+  it('replaces the job data', async () => {
+    const job = mockJob('j1', { updateData: vi.fn().mockResolvedValue(undefined) });
+    const q = mockQueue('q', { getJob: vi.fn().mockResolvedValue(job) });
+    const res = await request(makeApp([q])).post('/dash/api/queues/q/jobs/j1/data').send({ data: { fixed: true } });
+    expect(res.status).toBe(200);
+    expect(job.updateData).toHaveBeenCalledWith({ fixed: true });
+  });
+
+  it('runs custom validators and handles missing jobs', async () => {
+    const job = mockJob('j1', { updateData: vi.fn() });
+    const q = mockQueue('q', { getJob: vi.fn().mockImplementation(async (id: string) => (id === 'j1' ? job : null)) });
+    const app = makeApp([q], { jobSchemas: { q: (data: any) => (data?.ok ? null : ['ok must be set']) } });
+    const bad = await request(app).post('/dash/api/queues/q/jobs/j1/data').send({ data: {} });
+    expect(bad.status).toBe(400);
+    expect(bad.body.details).toEqual(['ok must be set']);
+    expect(job.updateData).not.toHaveBeenCalled();
+    expect((await request(app).post('/dash/api/queues/q/jobs/j1/data').send({})).status).toBe(400);
+    expect((await request(app).post('/dash/api/queues/q/jobs/zz/data').send({ data: { ok: 1 } })).status).toBe(404);
+  });
+});
+
+describe('GET /api/queues/:name/schema', () => {
+  it('exposes JSON Schemas but not validator functions', async () => {
+    const schema = { type: 'object' };
+    const app = makeApp([mockQueue('a'), mockQueue('b'), mockQueue('c')], { jobSchemas: { a: schema, b: () => null } });
+    expect((await request(app).get('/dash/api/queues/a/schema')).body).toEqual({ validated: true, schema });
+    expect((await request(app).get('/dash/api/queues/b/schema')).body).toEqual({ validated: true, schema: null });
+    expect((await request(app).get('/dash/api/queues/c/schema')).body).toEqual({ validated: false, schema: null });
+  });
 });
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from 'vitest';
+import request from 'supertest';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { memoryAuditSink, fileAuditSink, callbackAuditSink } from '../src/index';
+import { mockJob, mockQueue, makeApp } from './helpers';
+
+const actor = (req: any) => req.headers['x-user'] as string | undefined;
+
+describe('audit log', () => {
+  it('records successful mutations with actor, queue, job id and body', async () => {
+    const job = mockJob('j1', { changePriority: vi.fn().mockResolvedValue(undefined) });
+    const q = mockQueue('q', { getJob: vi.fn().mockResolvedValue(job) });
+    const app = makeApp([q], { audit: { actor } });
+    await request(app).post('/dash/api/queues/q/jobs/j1/priority').set('x-user', 'alice').send({ priority: 3 });
+
+    const res = await request(app).get('/dash/api/audit');
+    expect(res.status).toBe(200);
+    expect(res.body).toHaveLength(1);
+    expect(res.body[0]).toMatchObject({
+      actor: 'alice',
+      action: 'job:changePriority',
+      queue: 'q',
+      jobId: 'j1',
+      body: { priority: 3 },
+      outcome: 'success',
+      status: 200,
+    });
+    expect(typeof res.body[0].timestamp).toBe('number');
+  });
+
+  it('redacts job data in recorded bodies', async () => {
+    const q = mockQueue('q', { add: vi.fn().mockResolvedValue(mockJob('j1')) });
+    const app = makeApp([q], { audit: {}, redact: [{ keys: ['password'] }] });
+    await request(app).post('/dash/api/queues/q/jobs').send({ name: 'signup', data: { user: 'a', password: 'hunter2' } });
+
+    const res = await request(app).get('/dash/api/audit');
+    expect(res.body[0].body.data).toEqual({ user: 'a', password: '[REDACTED]' });
+  });
+
+  it('summarizes large bodies and records import files by size', async () => {
+    const q = mockQueue('q', { add: vi.fn().mockResolvedValue(mockJob('j1')) });
+    const app = makeApp([q], { audit: {} });
+    await request(app).post('/dash/api/queues/q/jobs').send({ name: 'big', data: { blob: 'x'.repeat(10000) } });
+    const content = '{"name":"a","data":{"secret":1}}\n{"name":"b","data":{}}\n';
+    await request(app).post('/dash/api/queues/q/import').send({ content, dryRun: true });
+
+    const [imported, added] = (await request(app).get('/dash/api/audit')).body;
+    expect(added.body).toMatchObject({ summarized: true, fields: { name: 'big', data: { type: 'object', keys: 1 } } });
+    expect(imported.body).toEqual({ content: { type: 'string', bytes: content.length, lines: 2 }, dryRun: true });
+  });
+
+  it('records bulk actions per job with a redacted, summarized body and the cluster tag', async () => {
+    const q = mockQueue('q', { getJob: vi.fn(async (id: string) => mockJob(id)) });
+    const app = makeApp([], { audit: {}, redact: [{ keys: ['email'] }], clusters: { prod: { queues: [q] } } });
+    const ids = Array.from({ length: 1000 }, (_, i) => `job-${i}`);
+    await request(app).post('/dash/api/clusters/prod/queues/q/jobs/bulk').send({ action: 'retry', ids, filter: { data: { email: 'a@b.c' } } });
+
+    const entries = (await request(app).get('/dash/api/audit?limit=1000')).body;
+    expect(entries).toHaveLength(1000);
+    expect(entries[0]).toMatchObject({ cluster: 'prod', action: 'job:retry', outcome: 'success', body: { summarized: true } });
+    expect(entries[0].body.fields.ids).toMatchObject({ type: 'array', length: 1000 });
+    expect(JSON.stringify(entries)).not.toContain('a@b.c');
+  });
+
+  it('records denied and failed attempts', async () => {
+    const q = mockQueue('q', { drain: vi.fn().mockRejectedValue(new Error('boom')) });
+    const app = makeApp([q], {
+      audit: { actor },
+      authorize: (req: any, action: string) => action !== 'queue:obliterate' || req.headers['x-user'] === 'admin',
+    });
+    await request(app).post('/dash/api/queues/q/obliterate').set('x-user', 'bob');
+    await request(app).post('/dash/api/queues/q/drain').set('x-user', 'bob');
+
+    const res = await request(app).get('/dash/api/audit');
+    expect(res.body.map((e: any) => [e.action, e.outcome, e.status])).toEqual([
+      ['queue:drain', 'error', 500],
+      ['queue:obliterate', 'denied', 403],
+    ]);
+    expect(res.body[0].error).toBe('boom');
+    expect(q.obliterate).not.toHaveBeenCalled();
+  });
+
+  it('filters by actor, action, queue and outcome', async () => {
+    const app = makeApp([mockQueue('a'), mockQueue('b')], { audit: { actor } });
+    await request(app).post('/dash/api/queues/a/pause').set('x-user', 'alice');
+    await request(app).post('/dash/api/queues/b/pause').set('x-user', 'bob');
+    await request(app).post('/dash/api/queues/b/resume').set('x-user', 'bob');
+
+    expect((await request(app).get('/dash/api/audit?actor=bob')).body).toHaveLength(2);
+    expect((await request(app).get('/dash/api/audit?action=queue:pause')).body).toHaveLength(2);
+    expect((await request(app).get('/dash/api/audit?queue=a')).body).toHaveLength(1);
+    expect((await request(app).get('/dash/api/audit?outcome=denied')).body).toHaveLength(0);
+    expect((await request(app).get('/dash/api/audit?limit=1')).body[0].action).toBe('queue:resume');
+  });
+
+  it('rejects invalid filters', async () => {
+    const app = makeApp([mockQueue('q')], { audit: {} });
+    expect((await request(app).get('/dash/api/audit?outcome=maybe')).status).toBe(400);
+    expect((await request(app).get('/dash/api/audit?since=yesterday')).status).toBe(400);
+  });
+
+  it('returns 404 when auditing is not enabled', async () => {
+    const res = await request(makeApp([mockQueue('q')])).get('/dash/api/audit');
+    expect(res.status).toBe(404);
+  });
+
+  it('keeps only the most recent entries in the memory sink', async () => {
+    const app = makeApp([mockQueue('q')], { audit: { sink: memoryAuditSink(2) } });
+    await request(app).post('/dash/api/queues/q/pause');
+    await request(app).post('/dash/api/queues/q/resume');
+    await request(app).post('/dash/api/queues/q/pause');
+    const res = await request(app).get('/dash/api/audit');
+    expect(res.body.map((e: any) => e.action)).toEqual(['queue:pause', 'queue:resume']);
+  });
+
+  it('appends JSON lines to the file sink and queries them back', async () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'glidemq-audit-')), 'audit.jsonl');
+    const app = makeApp([mockQueue('q')], { audit: { sink: fileAuditSink(path) } });
+    await request(app).post('/dash/api/queues/q/pause');
+    await request(app).post('/dash/api/queues/q/resume');
+    const lines = readFileSync(path, 'utf8').trim().split('\n').map((l) => JSON.parse(l));
+    expect(lines.map((e) => e.action)).toEqual(['queue:pause', 'queue:resume']);
+    const res = await request(app).get('/dash/api/audit?action=queue:pause');
+    expect(res.body).toHaveLength(1);
+  });
+
+  it('forwards entries to a callback sink and survives sink failures', async () => {
+    const seen = vi.fn();
+    const failing = callbackAuditSink(() => { throw new Error('sink down'); });
+    const q = mockQueue('q');
+    const app = makeApp([q], { audit: { sink: [failing, callbackAuditSink(seen)] } });
+    const res = await request(app).post('/dash/api/queues/q/pause');
+    expect(res.status).toBe(200);
+    expect(seen).toHaveBeenCalledWith(expect.objectContaining({ action: 'queue:pause', outcome: 'success' }));
+    // Neither sink is queryable.
+    expect((await request(app).get('/dash/api/audit')).status).toBe(404);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest';
+import request from 'supertest';
+import { budgetLimits } from '../src/budgets';
+import { makeApp, mockJob, mockQueue, mockQueueEvents } from './helpers';
+
+describe('budgetLimits', () => {
+  it('pairs numeric and per-category caps with their spend', () => {
+    expect(budgetLimits({
+      maxTotalTokens: 1000, usedTokens: 250,
+      maxTotalCost: 2, usedCost: 3,
+      maxTokens: { input: 100 },
+      maxCosts: { output: 1 }, usedCosts: { output: 0.5 },
+      exceeded: false,
+    })).toEqual([
+      { category: 'totalTokens', used: 250, cap: 1000, remaining: 750, percent: 0.25 },
+      { category: 'totalCost', used: 3, cap: 2, remaining: 0, percent: 1.5 },
+      { category: 'tokens.input', used: 0, cap: 100, remaining: 100, percent: 0 },
+      { category: 'costs.output', used: 0.5, cap: 1, remaining: 0.5, percent: 0.5 },
+    ]);
+  });
+});
+
+describe('GET /api/budgets', () => {
+  function setup() {
+    const budgets: Record<string, unknown> = {
+      f1: { maxTotalTokens: 1000, usedTokens: 900, exceeded: false, onExceeded: 'pause' },
+      f2: { maxTotalTokens: 1000, usedTokens: 100, exceeded: false },
+      root: { maxTotalCost: 1, usedCost: 1.2, exceeded: true, onExceeded: 'fail' },
+    };
+    const jobs = [
+      mockJob('c1', { parentId: 'f1', budgetKey: 'flow:f1' }),
+      mockJob('c2', { parentId: 'f1' }),
+      mockJob('c3', { parentId: 'f2', parentQueue: 'other' }),
+      mockJob('root', { budgetKey: 'flow:root' }),
+      mockJob('plain'),
+    ];
+    const getFlowBudget = vi.fn(async (id: string) => budgets[id] ?? null);
+    const q = mockQueue('q', { getJobs: vi.fn(async (state: string) => (state === 'waiting' ? jobs : [])), getFlowBudget });
+    const other = mockQueue('other', { getFlowBudget });
+    const events = mockQueueEvents('q');
+    const app = makeApp([q, other], { queueEvents: [events] });
+    return { app, events, getFlowBudget };
+  }
+
+  it('finds flows with a budget through recent jobs and ranks them by use', async () => {
+    const { app, getFlowBudget } = setup();
+    const res = await request(app).get('/dash/api/budgets');
+    expect(res.status).toBe(200);
+    expect(res.body.flows.map((f: any) => [f.queue, f.flowId, f.status])).toEqual([
+      ['q', 'root', 'exceeded'],
+      ['q', 'f1', 'warning'],
+      ['other', 'f2', 'ok'],
+    ]);
+    expect(res.body.flows[1]).toMatchObject({ budgetKey: 'flow:f1', percentUsed: 0.9, onExceeded: 'pause' });
+    expect(getFlowBudget).not.toHaveBeenCalledWith('plain');
+  });
+
+  it('honours warnAt and rejects invalid values', async () => {
+    const { app } = setup();
+    const res = await request(app).get('/dash/api/budgets?warnAt=0.95');
+    expect(res.body.flows.find((f: any) => f.flowId === 'f1').status).toBe('ok');
+    expect((await request(app).get('/dash/api/budgets?warnAt=2')).status).toBe(400);
+  });
+
+  it('links buffered budget-exceeded events to their flow', async () => {
+    const { app, events } = setup();
+    events.emit('budget-exceeded', { jobId: 'c2' });
+    events.emit('budget-exceeded', { jobId: 'unrelated' });
+    const res = await request(app).get('/dash/api/budgets');
+    const f1 = res.body.flows.find((f: any) => f.flowId === 'f1');
+    expect(f1.exceededEvents).toEqual([{ id: expect.any(String), queue: 'q', jobId: 'c2' }]);
+  });
+});
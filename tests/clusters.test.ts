@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { createDashboard, createDashboardCore } from '../src/index';
+import { mockQueue } from './helpers';
+
+function makeApp(opts?: Record<string, unknown>) {
+  const prodEmails = mockQueue('emails', { getJobCounts: vi.fn().mockResolvedValue({ waiting: 3, active: 1, completed: 10, failed: 2 }) });
+  const stagingEmails = mockQueue('emails', { getJobCounts: vi.fn().mockResolvedValue({ waiting: 1, active: 0, completed: 4, failed: 0 }) });
+  const stagingReports = mockQueue('reports');
+  const dashboard = createDashboard([prodEmails] as any, {
+    defaultCluster: 'prod',
+    clusters: { staging: { queues: [stagingEmails, stagingReports] as any, label: 'Staging' } },
+    ...opts,
+  } as any);
+  const app = express();
+  app.use('/dash', dashboard);
+  return { app, dashboard, prodEmails, stagingEmails };
+}
+
+describe('clusters', () => {
+  it('keeps the root routes on the default cluster', async () => {
+    const { app, prodEmails, stagingEmails } = makeApp();
+    const res = await request(app).get('/dash/api/queues');
+    expect(res.body.map((q: any) => q.name)).toEqual(['emails']);
+    await request(app).post('/dash/api/queues/emails/pause');
+    expect(prodEmails.pause).toHaveBeenCalled();
+    expect(stagingEmails.pause).not.toHaveBeenCalled();
+  });
+
+  it('serves each cluster under /api/clusters/:cluster', async () => {
+    const { app, prodEmails, stagingEmails } = makeApp();
+    const res = await request(app).get('/dash/api/clusters/staging/queues');
+    expect(res.body.map((q: any) => q.name)).toEqual(['emails', 'reports']);
+    expect((await request(app).get('/dash/api/clusters/prod/queues')).body).toHaveLength(1);
+
+    await request(app).post('/dash/api/clusters/staging/queues/emails/pause');
+    expect(stagingEmails.pause).toHaveBeenCalled();
+    expect(prodEmails.pause).not.toHaveBeenCalled();
+
+    const missing = await request(app).get('/dash/api/clusters/dev/queues');
+    expect(missing.status).toBe(404);
+    expect(missing.body.error).toBe('Cluster not found');
+  });
+
+  it('lists clusters with their totals', async () => {
+    const res = await request(makeApp().app).get('/dash/api/clusters');
+    expect(res.status).toBe(200);
+    expect(res.body.default).toBe('prod');
+    expect(res.body.clusters[0]).toMatchObject({ name: 'prod', label: 'prod', queues: 1, paused: 0, counts: { waiting: 3, failed: 2 } });
+    expect(res.body.clusters[1]).toMatchObject({ name: 'staging', label: 'Staging', queues: 2 });
+    // 'reports' uses the helper's default counts (5 waiting).
+    expect(res.body.clusters[1].counts.waiting).toBe(6);
+  });
+
+  it('has no /api/clusters without named clusters', async () => {
+    const app = express();
+    app.use('/dash', createDashboard([mockQueue('q')] as any));
+    expect((await request(app).get('/dash/api/clusters')).status).toBe(404);
+  });
+
+  it('records the cluster on audit entries', async () => {
+    const sink = { record: vi.fn() };
+    const { app } = makeApp({ audit: { sink } });
+    await request(app).post('/dash/api/clusters/staging/queues/emails/pause');
+    expect(sink.record).toHaveBeenCalledWith(expect.objectContaining({ cluster: 'staging', action: 'queue:pause', queue: 'emails' }));
+  });
+
+  it('adds and removes queues per cluster', async () => {
+    const { app, dashboard } = makeApp();
+    dashboard.addQueue(mockQueue('billing') as any, undefined, 'staging');
+    expect((await request(app).get('/dash/api/clusters/staging/queues')).body).toHaveLength(3);
+    expect((await request(app).get('/dash/api/queues')).body).toHaveLength(1);
+    expect(dashboard.removeQueue('billing', 'staging')).toBe(true);
+    expect(dashboard.removeQueue('billing', 'dev')).toBe(false);
+    expect(() => dashboard.addQueue(mockQueue('x') as any, undefined, 'dev')).toThrow(/Unknown cluster/);
+  });
+
+  it('rejects a cluster named like the default one', () => {
+    expect(() => createDashboardCore([] as any, { clusters: { default: { queues: [] } } })).toThrow(/clashes/);
+  });
+});
+
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { createDashboard, createDashboardCore } from '../src/index';
+import { queueNamesFromKeys } from '../src/discovery';
+import { mockQueue, mockQueueEvents } from './helpers';
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('addQueue / removeQueue', () => {
+  it('mounts and unmounts queues on a running router', async () => {
+    const dashboard = createDashboard([mockQueue('a')] as any);
+    const app = express();
+    app.use('/dash', dashboard);
+
+    dashboard.addQueue(mockQueue('b') as any);
+    let res = await request(app).get('/dash/api/queues');
+    expect(res.body.map((q: any) => q.name)).toEqual(['a', 'b']);
+    expect((await request(app).get('/dash/api/queues/b/jobs')).status).toBe(200);
+
+    expect(dashboard.removeQueue('a')).toBe(true);
+    expect(dashboard.removeQueue('a')).toBe(false);
+    res = await request(app).get('/dash/api/queues');
+    expect(res.body.map((q: any) => q.name)).toEqual(['b']);
+    expect((await request(app).get('/dash/api/queues/a/jobs')).status).toBe(404);
+  });
+
+  it('does not change the array it was created with', () => {
+    const queues = [mockQueue('a')];
+    createDashboardCore(queues as any).addQueue(mockQueue('b') as any);
+    expect(queues).toHaveLength(1);
+  });
+
+  it('forwards and stops forwarding the QueueEvents of runtime queues', async () => {
+    const core = createDashboardCore([] as any);
+    const events = mockQueueEvents('b');
+    core.addQueue(mockQueue('b') as any, events as any);
+    expect(events.listenerCount('completed')).toBe(1);
+    core.removeQueue('b');
+    expect(events.listenerCount('completed')).toBe(0);
+  });
+});
+
+describe('close', () => {
+  it('stops the history sampler and stops listening on QueueEvents', async () => {
+    vi.useFakeTimers();
+    const queue = mockQueue('a');
+    const events = mockQueueEvents('a');
+    const core = createDashboardCore([queue] as any, { queueEvents: [events as any], history: { intervalMs: 1000 } });
+    await vi.advanceTimersByTimeAsync(0);
+    const sampled = queue.getJobCounts.mock.calls.length;
+    await core.close();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(queue.getJobCounts).toHaveBeenCalledTimes(sampled);
+    expect(events.listenerCount('completed')).toBe(0);
+    expect(events.close).not.toHaveBeenCalled();
+  });
+});
+
+describe('queue discovery', () => {
+  it('extracts queue names from hash-tagged and plain keys', () => {
+    expect(queueNamesFromKeys(
+      ['glide:{emails}:meta', 'glide:{emails}:events', 'glide:reports:id', 'glide:{a:b}:meta', 'other:{x}:meta', 'glide:bare'],
+      'glide',
+    )).toEqual(['a:b', 'emails', 'reports']);
+  });
+
+  it('mounts new queues and unmounts the ones that disappear', async () => {
+    vi.useFakeTimers();
+    let keys = ['glide:{a}:meta', 'glide:{b}:meta'];
+    const created: Record<string, any> = {};
+    const scanKeys = vi.fn(async () => keys);
+    const core = createDashboardCore([mockQueue('a')] as any, {
+      discovery: {
+        scanKeys,
+        createQueue: (name) => {
+          created[name] = { ...mockQueue(name), close: vi.fn().mockResolvedValue(undefined) };
+          return created[name];
+        },
+        createQueueEvents: (name) => mockQueueEvents(name) as any,
+        intervalMs: 60000,
+      },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(scanKeys).toHaveBeenCalledWith('glide:*:meta');
+    expect(Object.keys(created)).toEqual(['b']);
+    expect(core.match('GET', '/api/queues/b/jobs')).not.toBeNull();
+
+    const list = async () => {
+      const res = await core.match('GET', '/api/queues')!.route.handler({
+        method: 'GET', params: {}, query: {}, body: undefined, header: () => undefined, raw: {},
+      });
+      return (res as any).body.map((q: any) => q.name);
+    };
+    expect(await list()).toEqual(['a', 'b']);
+
+    // 'a' was passed in by hand, so only the discovered 'b' is unmounted and closed.
+    keys = [];
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(await list()).toEqual(['a']);
+    expect(created.b.close).toHaveBeenCalled();
+  });
+
+  function discovered(keys: () => string[]) {
+    const created: any[] = [];
+    const scanKeys = vi.fn(async () => keys());
+    const core = createDashboardCore([] as any, {
+      discovery: {
+        scanKeys,
+        createQueue: (name) => {
+          const queue = { ...mockQueue(name), close: vi.fn().mockResolvedValue(undefined) };
+          created.push(queue);
+          return queue as any;
+        },
+        intervalMs: 60000,
+      },
+    });
+    return { core, created, scanKeys };
+  }
+
+  it('closes its own queue when it was removed by hand before mounting it again', async () => {
+    vi.useFakeTimers();
+    const { core, created } = discovered(() => ['glide:{b}:meta']);
+    await vi.advanceTimersByTimeAsync(0);
+    core.removeQueue('b');
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(created).toHaveLength(2);
+    expect(created[0].close).toHaveBeenCalled();
+    expect(created[1].close).not.toHaveBeenCalled();
+  });
+
+  it('leaves a queue added by hand under a discovered name alone', async () => {
+    vi.useFakeTimers();
+    let keys = ['glide:{b}:meta'];
+    const { core, created } = discovered(() => keys);
+    await vi.advanceTimersByTimeAsync(0);
+    const mine = mockQueue('b');
+    core.addQueue(mine as any);
+    keys = [];
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(created[0].close).toHaveBeenCalled();
+    expect(core.match('GET', '/api/queues/b/jobs')).not.toBeNull();
+    const res = await core.match('GET', '/api/queues/b/jobs')!.route.handler({
+      method: 'GET', params: { name: 'b' }, query: {}, body: undefined, header: () => undefined, raw: {},
+    });
+    expect(res.status).toBe(200);
+    expect(mine.getJobs).toHaveBeenCalled();
+  });
+
+  it('stops scanning and closes what it opened on close()', async () => {
+    vi.useFakeTimers();
+    const { core, created, scanKeys } = discovered(() => ['glide:{b}:meta']);
+    await vi.advanceTimersByTimeAsync(0);
+    await core.close();
+    expect(created[0].close).toHaveBeenCalled();
+    expect(core.removeQueue('b')).toBe(false);
+    await vi.advanceTimersByTimeAsync(120000);
+    expect(scanKeys).toHaveBeenCalledTimes(1);
+  });
+
+  it('closes a queue it opened when its QueueEvents cannot be created', async () => {
+    const queue = { ...mockQueue('b'), close: vi.fn().mockResolvedValue(undefined) };
+    const core = createDashboardCore([] as any, {
+      discovery: {
+        scanKeys: async () => ['glide:{b}:meta'],
+        createQueue: () => queue as any,
+        createQueueEvents: () => { throw new Error('no connection'); },
+      },
+    });
+    await flush();
+    expect(queue.close).toHaveBeenCalled();
+    expect(core.removeQueue('b')).toBe(false);
+    await core.close();
+  });
+
+  it('keeps the mounted queues when a scan fails', async () => {
+    const createQueue = vi.fn();
+    createDashboardCore([] as any, {
+      discovery: { scanKeys: vi.fn().mockRejectedValue(new Error('down')), createQueue },
+    });
+    await flush();
+    expect(createQueue).not.toHaveBeenCalled();
+  });
+});
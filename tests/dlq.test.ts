@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest';
+import request from 'supertest';
+import { mockJob, mockQueue, makeApp } from './helpers';
+
+function deadLetters() {
+  return [
+    mockJob('1', { name: 'charge', failedReason: 'card declined', timestamp: 100, opts: { jobId: '1', attempts: 3 } }),
+    mockJob('2', { name: 'charge', failedReason: 'card declined', timestamp: 300 }),
+    mockJob('3', { name: 'charge', failedReason: 'timeout', timestamp: 200 }),
+    mockJob('4', { name: 'email', failedReason: 'card declined', timestamp: 50 }),
+  ];
+}
+
+function dlqQueue(jobs: any[], overrides: Record<string, unknown> = {}) {
+  return mockQueue('q', {
+    getDeadLetterJobs: vi.fn().mockImplementation(async (start: number, end: number) => jobs.slice(start, end + 1)),
+    add: vi.fn().mockImplementation(async () => ({ id: 'new' })),
+    ...overrides,
+  });
+}
+
+describe('GET /api/queues/:name/dlq/groups', () => {
+  it('groups by name and failure reason, largest first', async () => {
+    const res = await request(makeApp([dlqQueue(deadLetters())])).get('/dash/api/queues/q/dlq/groups');
+    expect(res.status).toBe(200);
+    expect(res.body.total).toBe(4);
+    expect(res.body.truncated).toBe(false);
+    expect(res.body.groups[0]).toEqual({
+      name: 'charge', failedReason: 'card declined', count: 2, oldest: 100, newest: 300, sampleIds: ['1', '2'],
+    });
+    expect(res.body.groups.map((g: any) => g.count)).toEqual([2, 1, 1]);
+  });
+
+  it('pages through more than one DLQ page', async () => {
+    const q = dlqQueue(Array.from({ length: 450 }, (_, i) => mockJob(String(i), { failedReason: 'x' })));
+    const res = await request(makeApp([q])).get('/dash/api/queues/q/dlq/groups');
+    expect(res.body.groups).toHaveLength(1);
+    expect(res.body.groups[0].count).toBe(450);
+    expect(q.getDeadLetterJobs.mock.calls).toEqual([[0, 199], [200, 399], [400, 599]]);
+  });
+
+  it('needs job:read like the DLQ listing', async () => {
+    const rbac = (actions: string[]) => ({ rbac: { roles: { r: { actions } }, resolveRole: () => 'r' } });
+    const url = '/dash/api/queues/q/dlq/groups';
+    expect((await request(makeApp([dlqQueue(deadLetters())], rbac(['queue:read']))).get(url)).status).toBe(403);
+    expect((await request(makeApp([dlqQueue(deadLetters())], rbac(['job:read']))).get(url)).status).toBe(200);
+  });
+});
+
+describe('POST /api/queues/:name/dlq/requeue', () => {
+  it('re-adds a filtered bucket to the origin queue and removes the dead letters', async () => {
+    const jobs = deadLetters();
+    const q = dlqQueue(jobs);
+    const res = await request(makeApp([q]))
+      .post('/dash/api/queues/q/dlq/requeue')
+      .send({ filter: { name: 'charge', failedReason: 'card declined' } });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ total: 2, succeeded: 2, failed: 0 });
+    expect(res.body.results[0]).toEqual({ id: '1', status: 'ok', newId: 'new' });
+    expect(q.add).toHaveBeenCalledWith('charge', { key: 'value' }, { attempts: 3 });
+    expect(jobs[0].remove).toHaveBeenCalled();
+    expect(jobs[1].remove).toHaveBeenCalled();
+    expect(jobs[2].remove).not.toHaveBeenCalled();
+  });
+
+  it('keeps the dead letter when the re-add fails and reports unknown ids', async () => {
+    const jobs = deadLetters();
+    const q = dlqQueue(jobs, { add: vi.fn().mockRejectedValue(new Error('down')) });
+    const res = await request(makeApp([q])).post('/dash/api/queues/q/dlq/requeue').send({ ids: ['3', 'zz'] });
+    expect(res.body.results).toEqual([
+      { id: '3', status: 'error', error: 'down' },
+      { id: 'zz', status: 'not_found' },
+    ]);
+    expect(jobs[2].remove).not.toHaveBeenCalled();
+  });
+
+  it('reports the new id when the dead letter cannot be removed after the re-add', async () => {
+    const jobs = deadLetters();
+    jobs[2].remove.mockRejectedValue(new Error('locked'));
+    const res = await request(makeApp([dlqQueue(jobs)])).post('/dash/api/queues/q/dlq/requeue').send({ ids: ['3'] });
+    expect(res.body).toMatchObject({ total: 1, succeeded: 0, failed: 1 });
+    expect(res.body.results).toEqual([{
+      id: '3', status: 'error', newId: 'new', error: 'Requeued as new, but the dead letter could not be removed: locked',
+    }]);
+  });
+
+  it('validates the target and is guarded', async () => {
+    const app = makeApp([dlqQueue([])]);
+    expect((await request(app).post('/dash/api/queues/q/dlq/requeue').send({})).status).toBe(400);
+    expect((await request(app).post('/dash/api/queues/q/dlq/requeue').send({ ids: [{}] })).status).toBe(400);
+    const authorize = vi.fn().mockReturnValue(false);
+    const denied = await request(makeApp([dlqQueue([])], { authorize })).post('/dash/api/queues/q/dlq/requeue').send({ filter: {} });
+    expect(denied.status).toBe(403);
+    expect(authorize).toHaveBeenCalledWith(expect.anything(), 'dlq:requeue');
+  });
+});
+
+describe('POST /api/queues/:name/dlq/purge', () => {
+  it('removes every dead letter for an empty filter', async () => {
+    const jobs = deadLetters();
+    const q = dlqQueue(jobs);
+    const res = await request(makeApp([q])).post('/dash/api/queues/q/dlq/purge').send({ filter: {} });
+    expect(res.body).toMatchObject({ total: 4, succeeded: 4 });
+    jobs.forEach((j) => expect(j.remove).toHaveBeenCalled());
+    expect(q.add).not.toHaveBeenCalled();
+  });
+});
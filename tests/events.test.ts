@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createDashboardCore } from '../src/index';
+import type { DashboardStreamSink } from '../src/index';
+import { EVENT_REPLAY_SIZE } from '../src/events';
+import { mockJob, mockQueue, mockQueueEvents } from './helpers';
+
+function collectSink() {
+  const chunks: string[] = [];
+  const closers: (() => void)[] = [];
+  let closed = false;
+  const sink: DashboardStreamSink = {
+    write: (chunk) => { chunks.push(chunk); },
+    end: () => { closed = true; },
+    onClose: (fn) => { closers.push(fn); },
+    get closed() { return closed; },
+  };
+  return {
+    sink,
+    close: () => { closed = true; closers.forEach((fn) => fn()); },
+    events: () => chunks.join('').split('\n\n').filter((b) => b.includes('data:')).map((b) => ({
+      id: /^id: (.*)$/m.exec(b)?.[1],
+      type: /^event: (.*)$/m.exec(b)?.[1],
+      data: JSON.parse(/^data: (.*)$/m.exec(b)![1]),
+    })),
+  };
+}
+
+async function open(core: ReturnType<typeof createDashboardCore>, query: Record<string, string> = {}, lastEventId?: string) {
+  const matched = core.match('GET', '/api/events')!;
+  const response = await matched.route.handler({
+    method: 'GET',
+    params: {},
+    query,
+    body: undefined,
+    header: (name) => (name === 'last-event-id' ? lastEventId : undefined),
+    raw: {},
+  });
+  if (response.type !== 'stream') return { response, stream: null };
+  const stream = collectSink();
+  await response.start(stream.sink);
+  return { response, stream };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('GET /api/events', () => {
+  it('streams events with ids from every queue by default', async () => {
+    const a = mockQueueEvents('a');
+    const b = mockQueueEvents('b');
+    const core = createDashboardCore([mockQueue('a'), mockQueue('b')] as any, { queueEvents: [a, b] as any });
+    const { stream } = await open(core);
+    a.emit('completed', { jobId: '1' });
+    b.emit('failed', { jobId: '2' });
+    await flush();
+    const events = stream!.events();
+    expect(events.map((e) => e.data)).toEqual([
+      { queue: 'a', event: 'completed', payload: { jobId: '1' } },
+      { queue: 'b', event: 'failed', payload: { jobId: '2' } },
+    ]);
+    expect(events[0].id).toMatch(/^\w+:1$/);
+    expect(events[1].id).toMatch(/^\w+:2$/);
+    stream!.close();
+  });
+
+  it('filters by queue and event type', async () => {
+    const a = mockQueueEvents('a');
+    const b = mockQueueEvents('b');
+    const core = createDashboardCore([mockQueue('a'), mockQueue('b')] as any, { queueEvents: [a, b] as any });
+    const { stream } = await open(core, { queue: 'a', event: 'failed,stalled' });
+    a.emit('completed', { jobId: '1' });
+    a.emit('failed', { jobId: '2' });
+    b.emit('failed', { jobId: '3' });
+    await flush();
+    expect(stream!.events().map((e) => e.data.payload.jobId)).toEqual(['2']);
+    stream!.close();
+  });
+
+  it('filters by job name, looking names up once per job', async () => {
+    const qe = mockQueueEvents('q');
+    const getJob = vi.fn().mockImplementation(async (id: string) => mockJob(id, { name: id === '1' ? 'email' : 'sms' }));
+    const core = createDashboardCore([mockQueue('q', { getJob })] as any, { queueEvents: [qe] as any });
+    const { stream } = await open(core, { name: 'email' });
+    qe.emit('active', { jobId: '1' });
+    qe.emit('active', { jobId: '2' });
+    qe.emit('completed', { jobId: '1' });
+    await flush();
+    expect(stream!.events().map((e) => e.data.event)).toEqual(['active', 'completed']);
+    expect(getJob).toHaveBeenCalledTimes(2);
+    stream!.close();
+  });
+
+  it('replays buffered events after Last-Event-ID, applying the filter', async () => {
+    const qe = mockQueueEvents('q');
+    const core = createDashboardCore([mockQueue('q')] as any, { queueEvents: [qe] as any });
+    const first = await open(core);
+    qe.emit('completed', { jobId: '1' });
+    await flush();
+    const lastId = first.stream!.events()[0].id!;
+    first.stream!.close();
+
+    qe.emit('failed', { jobId: '2' });
+    qe.emit('completed', { jobId: '3' });
+    const resumed = await open(core, { event: 'completed' }, lastId);
+    await flush();
+    expect(resumed.stream!.events().map((e) => e.data.payload.jobId)).toEqual(['3']);
+    qe.emit('completed', { jobId: '4' });
+    await flush();
+    expect(resumed.stream!.events().map((e) => e.data.payload.jobId)).toEqual(['3', '4']);
+    resumed.stream!.close();
+  });
+
+  it('sends a reset event when the last id is no longer buffered', async () => {
+    const qe = mockQueueEvents('q');
+    const core = createDashboardCore([mockQueue('q')] as any, { queueEvents: [qe] as any });
+    const first = await open(core);
+    qe.emit('completed', { jobId: '0' });
+    await flush();
+    const lastId = first.stream!.events()[0].id!;
+    first.stream!.close();
+    for (let i = 0; i <= EVENT_REPLAY_SIZE; i++) qe.emit('progress', { jobId: String(i) });
+
+    const resumed = await open(core, {}, lastId);
+    expect(resumed.stream!.events()[0].type).toBe('reset');
+    resumed.stream!.close();
+    const foreign = await open(core, { lastEventId: 'other:5' });
+    expect(foreign.stream!.events()[0].type).toBe('reset');
+    foreign.stream!.close();
+  });
+
+  it('stops delivering after the client disconnects', async () => {
+    const qe = mockQueueEvents('q');
+    const core = createDashboardCore([mockQueue('q')] as any, { queueEvents: [qe] as any });
+    const { stream } = await open(core);
+    stream!.close();
+    qe.emit('completed', { jobId: '1' });
+    await flush();
+    expect(stream!.events()).toEqual([]);
+  });
+
+  it('rejects unknown queues and event types', async () => {
+    const core = createDashboardCore([mockQueue('q')] as any);
+    expect((await open(core, { queue: 'nope' })).response).toMatchObject({ status: 404 });
+    expect((await open(core, { event: 'exploded' })).response).toMatchObject({ status: 400 });
+  });
+});
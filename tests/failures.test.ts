@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import request from 'supertest';
+import { fingerprintJob, normalizeFailure } from '../src/failures';
+import { mockJob, mockQueue, makeApp } from './helpers';
+
+function failedQueue(jobs: any[]) {
+  return mockQueue('q', {
+    getJobs: vi.fn().mockImplementation(async (state: string, start: number, end: number) =>
+      (state === 'failed' ? jobs.slice(start, end + 1) : [])),
+  });
+}
+
+describe('failure fingerprints', () => {
+  it('strips ids, numbers and timestamps', () => {
+    expect(normalizeFailure('Order 8f14e45f-ceea-467f-a0e5-2d1c2a6b7c9d failed at 2026-03-01T10:22:33.120Z after 3 tries'))
+      .toBe('Order <id> failed at <time> after <n> tries');
+    expect(normalizeFailure('user 5f2b9c01aa not   found (0x1f2e3d4c)')).toBe('user <id> not found (<id>)');
+  });
+
+  it('groups jobs that differ only in volatile details, split by stack', () => {
+    const stack = (line: number) => `Error: boom\n    at charge (/app/pay.js:${line}:7)\n    at run (/app/worker.js:10:3)`;
+    const a = fingerprintJob(mockJob('1', { failedReason: 'timeout after 3000ms', stacktrace: [stack(12)] }) as any);
+    const b = fingerprintJob(mockJob('2', { failedReason: 'timeout after 5000ms', stacktrace: [stack(40)] }) as any);
+    const c = fingerprintJob(mockJob('3', { failedReason: 'timeout after 5000ms', stacktrace: ['Error\n    at other (/app/x.js:1:1)'] }) as any);
+    expect(a.fingerprint).toBe(b.fingerprint);
+    expect(a.frames).toEqual(['at charge (/app/pay.js:<n>:<n>)', 'at run (/app/worker.js:<n>:<n>)']);
+    expect(c.fingerprint).not.toBe(a.fingerprint);
+  });
+});
+
+describe('GET /api/queues/:name/failures', () => {
+  it('reports count, names, first/last seen and examples per group', async () => {
+    const jobs = [
+      mockJob('1', { name: 'charge', failedReason: 'card 4242 declined', finishedOn: 300 }),
+      mockJob('2', { name: 'refund', failedReason: 'card 1111 declined', finishedOn: 100 }),
+      mockJob('3', { name: 'charge', failedReason: 'gateway timeout', finishedOn: 200 }),
+    ];
+    const q = failedQueue(jobs);
+    const res = await request(makeApp([q])).get('/dash/api/queues/q/failures');
+    expect(res.status).toBe(200);
+    expect(q.getJobs).toHaveBeenCalledWith('failed', 0, 199, { excludeData: true });
+    expect(res.body.scanned).toBe(3);
+    expect(res.body.groups).toHaveLength(2);
+    expect(res.body.groups[0]).toMatchObject({
+      message: 'card <n> declined', count: 2, names: ['charge', 'refund'], firstSeen: 100, lastSeen: 300, exampleIds: ['1', '2'],
+    });
+  });
+
+  it('needs job:read', async () => {
+    const rbac = (actions: string[]) => ({ rbac: { roles: { r: { actions } }, resolveRole: () => 'r' } });
+    const url = '/dash/api/queues/q/failures';
+    expect((await request(makeApp([failedQueue([])], rbac(['queue:read']))).get(url)).status).toBe(403);
+    expect((await request(makeApp([failedQueue([])], rbac(['job:read']))).get(url)).status).toBe(200);
+  });
+
+  it('lists and retries the jobs of one group', async () => {
+    const jobs = [
+      mockJob('1', { failedReason: 'card 4242 declined' }),
+      mockJob('2', { failedReason: 'card 1111 declined', retry: vi.fn().mockRejectedValue(new Error('gone')) }),
+      mockJob('3', { failedReason: 'gateway timeout' }),
+    ];
+    const app = makeApp([failedQueue(jobs)]);
+    const { fingerprint } = fingerprintJob(jobs[0] as any);
+    const list = await request(app).get(`/dash/api/queues/q/failures/${fingerprint}`);
+    expect(list.body.map((j: any) => [j.id, j.state])).toEqual([['1', 'failed'], ['2', 'failed']]);
+
+    const res = await request(app).post(`/dash/api/queues/q/failures/${fingerprint}/retry`);
+    expect(res.body).toEqual({ total: 2, succeeded: 1, failed: 1 });
+    expect(jobs[0].retry).toHaveBeenCalled();
+    expect(jobs[2].retry).not.toHaveBeenCalled();
+  });
+
+  it('guards retry-group with job:retry', async () => {
+    const authorize = vi.fn().mockReturnValue(false);
+    const res = await request(makeApp([failedQueue([])], { authorize })).post('/dash/api/queues/q/failures/abc/retry');
+    expect(res.status).toBe(403);
+    expect(authorize).toHaveBeenCalledWith(expect.anything(), 'job:retry');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import { memoryHistoryStore } from '../src/index';
+import type { CountSample } from '../src/index';
+import { createHistorySampler, downsample } from '../src/history';
+import type { HistorySampler } from '../src/history';
+import { mockQueue, makeApp } from './helpers';
+
+const samplers: HistorySampler[] = [];
+afterEach(() => {
+  samplers.splice(0).forEach((s) => s.stop());
+});
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+function sample(timestamp: number, waiting: number, queue = 'q'): CountSample {
+  return { timestamp, queue, counts: { waiting, active: 1 } };
+}
+
+describe('history sampler', () => {
+  it('snapshots every queue and keeps going when one fails', async () => {
+    const store = memoryHistoryStore();
+    const good = mockQueue('good');
+    const bad = mockQueue('bad', { getJobCounts: vi.fn().mockRejectedValue(new Error('down')) });
+    const sampler = createHistorySampler([good, bad] as any, { store, intervalMs: 60_000 });
+    samplers.push(sampler);
+    await sampler.sample();
+    const samples = await store.query('good', 0, Date.now());
+    expect(samples.length).toBeGreaterThanOrEqual(1);
+    expect(samples[0].counts).toMatchObject({ waiting: 5, active: 2 });
+    expect(await store.query('bad', 0, Date.now())).toEqual([]);
+  });
+
+  it('memory store keeps the most recent samples per queue', () => {
+    const store = memoryHistoryStore(2);
+    [1, 2, 3].forEach((t) => store.record(sample(t, t)));
+    store.record(sample(4, 4, 'other'));
+    expect((store.query('q', 0, 10) as CountSample[]).map((s) => s.timestamp)).toEqual([2, 3]);
+    expect((store.query('q', 3, 10) as CountSample[]).map((s) => s.timestamp)).toEqual([3]);
+  });
+
+  it('downsamples to the per-bucket maximum', () => {
+    const samples = [sample(0, 1), sample(10, 9), sample(50, 2), sample(60, 3)];
+    const result = downsample(samples, 0, 100, 2);
+    expect(result.map((s) => s.counts.waiting)).toEqual([9, 3]);
+    expect(result.map((s) => s.timestamp)).toEqual([10, 60]);
+    expect(downsample(samples, 0, 100, 10)).toBe(samples);
+  });
+});
+
+describe('GET /api/queues/:name/history', () => {
+  it('returns 404 when history is off', async () => {
+    const res = await request(makeApp([mockQueue('q')])).get('/dash/api/queues/q/history');
+    expect(res.status).toBe(404);
+    expect(res.body.error).toBe('Backlog history is not enabled');
+  });
+
+  it('serves samples from the configured store within the range', async () => {
+    const store = memoryHistoryStore();
+    const now = Date.now();
+    store.record(sample(now - 2 * 3600_000, 100));
+    store.record(sample(now - 600_000, 7));
+    const app = makeApp([mockQueue('q')], { history: { store, intervalMs: 3600_000 } });
+    await flush();
+    const res = await request(app).get('/dash/api/queues/q/history');
+    expect(res.status).toBe(200);
+    expect(res.body.intervalMs).toBe(3600_000);
+    // The default range is the last hour: the old sample is out, the initial snapshot is in.
+    expect(res.body.samples.map((s: any) => s.counts.waiting)).toEqual([7, 5]);
+
+    const older = await request(app).get(`/dash/api/queues/q/history?since=${now - 3 * 3600_000}&until=${now - 3600_000}`);
+    expect(older.body.samples).toEqual([{ timestamp: now - 2 * 3600_000, counts: { waiting: 100, active: 1 } }]);
+  });
+
+  it('validates the query and the queue', async () => {
+    const app = makeApp([mockQueue('q')], { history: true });
+    expect((await request(app).get('/dash/api/queues/q/history?since=yesterday')).status).toBe(400);
+    expect((await request(app).get('/dash/api/queues/nope/history')).status).toBe(404);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { encodeCursor } from '../src/job-list';
+import { mockJob, mockQueue, makeApp } from './helpers';
+
+/** A queue whose states hold the given timestamps, served by inclusive range like glide-mq. */
+function queueWith(states: Record<string, number[]>) {
+  const lists: Record<string, any[]> = {};
+  for (const [state, stamps] of Object.entries(states)) {
+    lists[state] = stamps.map((t) => mockJob(`${state}-${t}`, { timestamp: t }));
+  }
+  return mockQueue('q', {
+    getJobs: vi.fn(async (state: string, start: number, end: number) => (lists[state] ?? []).slice(start, end + 1)),
+  });
+}
+
+async function walk(app: express.Express, query: string) {
+  const pages: string[][] = [];
+  let cursor: string | null = null;
+  do {
+    const res: any = await request(app).get(`/dash/api/queues/q/jobs?${query}${cursor ? `&cursor=${cursor}` : ''}`);
+    expect(res.status).toBe(200);
+    pages.push(res.body.items.map((j: any) => j.id));
+    cursor = res.body.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+describe('GET /api/queues/:name/jobs pages', () => {
+  it('merges states newest first and walks every job exactly once', async () => {
+    const q = queueWith({ waiting: [90, 60, 30], completed: [80, 70, 20, 10], failed: [50] });
+    const pages = await walk(makeApp([q]), 'limit=3');
+    expect(pages).toEqual([
+      ['waiting-90', 'completed-80', 'completed-70'],
+      ['waiting-60', 'failed-50', 'waiting-30'],
+      ['completed-20', 'completed-10'],
+    ]);
+  });
+
+  it('reads one page per state however deep the cursor is', async () => {
+    const q = queueWith({ waiting: Array.from({ length: 1000 }, (_, i) => 1000 - i) });
+    const cursor = encodeCursor({ waiting: 900 });
+    const res = await request(makeApp([q])).get(`/dash/api/queues/q/jobs?limit=50&cursor=${cursor}`);
+    expect(res.body.items).toHaveLength(50);
+    expect(res.body.items[0].id).toBe('waiting-100');
+    expect(q.getJobs).toHaveBeenCalledTimes(1);
+    expect(q.getJobs).toHaveBeenCalledWith('waiting', 900, 949);
+  });
+
+  it('pages a single state and reports totals for all of them', async () => {
+    const q = queueWith({ failed: [5, 4, 3], waiting: [9] });
+    const app = makeApp([q]);
+    expect(await walk(app, 'state=failed&limit=2')).toEqual([['failed-5', 'failed-4'], ['failed-3']]);
+    const res = await request(app).get('/dash/api/queues/q/jobs?state=failed&limit=2');
+    expect(res.body.totals).toEqual({ waiting: 5, active: 2, delayed: 1, completed: 10, failed: 3 });
+    expect(res.body.items.every((j: any) => j.state === 'failed')).toBe(true);
+  });
+
+  it('rejects bad cursors, limits and formats', async () => {
+    const app = makeApp([queueWith({})]);
+    const get = (query: string) => request(app).get(`/dash/api/queues/q/jobs?${query}`);
+    expect((await get('cursor=not-a-cursor')).body.error).toBe('Invalid cursor');
+    expect((await get(`cursor=${encodeCursor({ waiting: -1 })}`)).status).toBe(400);
+    expect((await get(`state=failed&cursor=${encodeCursor({ waiting: 3 })}`)).body.error).toBe('Invalid cursor');
+    expect((await get('limit=many')).body.error).toBe('limit must be a non-negative integer');
+    expect((await get('format=xml')).status).toBe(400);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+import request from 'supertest';
+import { percentile } from '../src/latency';
+import { mockJob, mockQueue, makeApp } from './helpers';
+
+describe('percentile', () => {
+  it('uses the nearest rank', () => {
+    const values = Array.from({ length: 100 }, (_, i) => i + 1);
+    expect(percentile(values, 50)).toBe(50);
+    expect(percentile(values, 95)).toBe(95);
+    expect(percentile(values, 99)).toBe(99);
+    expect(percentile([7], 99)).toBe(7);
+    expect(percentile([], 50)).toBeNull();
+  });
+});
+
+describe('GET /api/queues/:name/latency', () => {
+  function timed(id: string, name: string, wait: number, processing: number, finishedOn: number) {
+    return mockJob(id, { name, timestamp: finishedOn - processing - wait, processedOn: finishedOn - processing, finishedOn });
+  }
+
+  it('reports wait and processing percentiles overall and per job name', async () => {
+    vi.useFakeTimers({ now: 600000, toFake: ['Date'] });
+    try {
+      const completed = [
+        timed('1', 'resize', 100, 1000, 590000),
+        timed('2', 'resize', 300, 3000, 580000),
+        timed('3', 'email', 10, 50, 570000),
+      ];
+      const failed = [timed('4', 'resize', 200, 9000, 480000)];
+      const getJobs = vi.fn(async (state: string) => (state === 'completed' ? completed : state === 'failed' ? failed : []));
+      const res = await request(makeApp([mockQueue('q', { getJobs })])).get('/dash/api/queues/q/latency?slaMs=3500');
+      expect(res.status).toBe(200);
+      expect(res.body.overall).toMatchObject({
+        completed: 3,
+        failed: 1,
+        wait: { count: 4, p50: 100, p99: 300, max: 300 },
+        processing: { count: 4, p50: 1000, p95: 9000 },
+        since: 480000,
+        throughputPerMin: 2,
+        overSla: 1,
+      });
+      expect(res.body.byName.map((n: any) => [n.name, n.processing.p50, n.wait.p95])).toEqual([
+        ['resize', 3000, 300],
+        ['email', 50, 10],
+      ]);
+      expect(getJobs).toHaveBeenCalledWith('completed', 0, 199, { excludeData: true });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('reads only the requested window of jobs', async () => {
+    const q = mockQueue('q');
+    await request(makeApp([q])).get('/dash/api/queues/q/latency?window=10');
+    expect(q.getJobs).toHaveBeenCalledWith('completed', 0, 9, { excludeData: true });
+    expect(q.getJobs).toHaveBeenCalledWith('failed', 0, 9, { excludeData: true });
+  });
+
+  it('rejects invalid windows and unknown queues', async () => {
+    const app = makeApp([mockQueue('q')]);
+    expect((await request(app).get('/dash/api/queues/q/latency?window=0')).status).toBe(400);
+    expect((await request(app).get('/dash/api/queues/q/latency?window=999999')).status).toBe(400);
+    expect((await request(app).get('/dash/api/queues/q/latency?slaMs=-1')).status).toBe(400);
+    expect((await request(app).get('/dash/api/queues/x/latency')).status).toBe(404);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import request from 'supertest';
+import { mockQueue, makeApp } from './helpers';
+
+describe('prometheus endpoint', () => {
+  it('is not served unless enabled', async () => {
+    const app = makeApp([mockQueue('q')]);
+    const res = await request(app).get('/dash/metrics');
+    expect(res.status).toBe(404);
+  });
+
+  it('exposes queue gauges and counters in the Prometheus text format', async () => {
+    const q = mockQueue('emails', { getWorkers: vi.fn().mockResolvedValue([{ id: 'w1' }, { id: 'w2' }]) });
+    const app = makeApp([q], { prometheus: true });
+    const res = await request(app).get('/dash/metrics');
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toContain('text/plain; version=0.0.4');
+    expect(res.text).toContain('# TYPE glidemq_queue_jobs gauge');
+    expect(res.text).toContain('glidemq_queue_jobs{queue="emails",state="waiting"} 5');
+    expect(res.text).toContain('glidemq_queue_jobs{queue="emails",state="failed"} 3');
+    expect(res.text).toContain('glidemq_queue_paused{queue="emails"} 0');
+    expect(res.text).toContain('glidemq_queue_workers{queue="emails"} 2');
+    expect(res.text).toContain('# TYPE glidemq_jobs_completed_total counter');
+    expect(res.text).toContain('glidemq_jobs_completed_total{queue="emails"} 42');
+    expect(res.text).toContain('glidemq_queue_up{queue="emails"} 1');
+    expect(res.text).not.toContain('# EOF');
+  });
+
+  it('exposes usage totals labelled by queue and model', async () => {
+    const app = makeApp([mockQueue('llm')], { prometheus: true });
+    const res = await request(app).get('/dash/metrics');
+    expect(res.text).toContain('glidemq_usage_tokens{queue="llm",category="input"} 100');
+    expect(res.text).toContain('glidemq_usage_total_tokens{queue="llm"} 100');
+    expect(res.text).toContain('glidemq_usage_total_cost{queue="llm",unit="usd"} 0.01');
+    expect(res.text).toContain('glidemq_usage_model_jobs{queue="llm",model="gpt-5.4"} 1');
+  });
+
+  it('skips usage series when the usage summary is unavailable', async () => {
+    const q = mockQueue('q', { getUsageSummary: vi.fn().mockRejectedValue(new Error('unsupported')) });
+    const app = makeApp([q], { prometheus: true });
+    const res = await request(app).get('/dash/metrics');
+    expect(res.status).toBe(200);
+    expect(res.text).not.toContain('glidemq_usage_');
+  });
+
+  it('reports an unreadable queue as down without failing the scrape', async () => {
+    const bad = mockQueue('bad', { getJobCounts: vi.fn().mockRejectedValue(new Error('boom')) });
+    const app = makeApp([mockQueue('good'), bad], { prometheus: true });
+    const res = await request(app).get('/dash/metrics');
+    expect(res.status).toBe(200);
+    expect(res.text).toContain('glidemq_queue_up{queue="bad"} 0');
+    expect(res.text).toContain('glidemq_queue_up{queue="good"} 1');
+    expect(res.text).not.toContain('queue="bad",state=');
+  });
+
+  it('serves OpenMetrics when the scraper asks for it', async () => {
+    const app = makeApp([mockQueue('q')], { prometheus: true });
+    const res = await request(app).get('/dash/metrics').set('Accept', 'application/openmetrics-text; version=1.0.0');
+    expect(res.headers['content-type']).toContain('application/openmetrics-text');
+    expect(res.text).toContain('# TYPE glidemq_jobs_completed counter');
+    expect(res.text).toContain('glidemq_jobs_completed_total{queue="q"} 42');
+    expect(res.text.trimEnd().endsWith('# EOF')).toBe(true);
+  });
+
+  it('escapes label values', async () => {
+    const app = makeApp([mockQueue('a"b\\c')], { prometheus: true });
+    const res = await request(app).get('/dash/metrics');
+    expect(res.text).toContain('glidemq_queue_paused{queue="a\\"b\\\\c"} 0');
+  });
+
+  it('uses its own authorize hook, separate from the dashboard one', async () => {
+    const authorize = vi.fn().mockReturnValue(false);
+    const app = makeApp([mockQueue('q')], {
+      authorize,
+      prometheus: { authorize: (req: any) => req.headers.authorization === 'Bearer scrape' },
+    });
+    const denied = await request(app).get('/dash/metrics');
+    expect(denied.status).toBe(403);
+    const allowed = await request(app).get('/dash/metrics').set('Authorization', 'Bearer scrape');
+    expect(allowed.status).toBe(200);
+    expect(authorize).not.toHaveBeenCalled();
+  });
+
+  it('stays available in read-only mode', async () => {
+    const app = makeApp([mockQueue('q')], { readOnly: true, prometheus: true });
+    const res = await request(app).get('/dash/metrics');
+    expect(res.status).toBe(200);
+  });
+});
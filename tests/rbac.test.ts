@@ -0,0 +1,187 @@
+import { describe, it, expect, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { makeApp as makeDashboardApp, mockJob, mockQueue } from './helpers';
+
+const roles = {
+  admin: ['*'],
+  viewer: ['queue:read', 'job:read'],
+  analyst: ['queue:read', 'job:read', 'job:readData'],
+  'tenant-a': { actions: ['queue:*', 'job:*'], queues: ['tenant-a-*'] },
+};
+
+function makeApp(queues: unknown[], opts?: Record<string, unknown>) {
+  return makeDashboardApp(queues, {
+    rbac: { roles, resolveRole: (req: express.Request) => req.header('x-role')?.split(',') },
+    ...opts,
+  });
+}
+
+describe('RBAC reads', () => {
+  it('denies every read to a caller without a role', async () => {
+    const app = makeApp([mockQueue('q')]);
+    expect((await request(app).get('/dash/api/queues')).status).toBe(403);
+    expect((await request(app).get('/dash/api/queues/q/jobs')).status).toBe(403);
+    expect((await request(app).get('/dash/api/queues').set('x-role', 'unknown')).status).toBe(403);
+  });
+
+  it('leaves the HTML page reachable', async () => {
+    const res = await request(makeApp([mockQueue('q')])).get('/dash/');
+    expect(res.status).toBe(200);
+  });
+
+  it('lists only the queues a role is scoped to', async () => {
+    const app = makeApp([mockQueue('tenant-a-emails'), mockQueue('tenant-b-emails')]);
+    const res = await request(app).get('/dash/api/queues').set('x-role', 'tenant-a');
+    expect(res.status).toBe(200);
+    expect(res.body.map((q: any) => q.name)).toEqual(['tenant-a-emails']);
+
+    const other = await request(app).get('/dash/api/queues/tenant-b-emails/jobs').set('x-role', 'tenant-a');
+    expect(other.status).toBe(403);
+  });
+
+  it('strips data and results without job:readData', async () => {
+    const queue = mockQueue('q', {
+      getJobs: vi.fn().mockResolvedValue([mockJob('1', { data: { secret: 1 }, returnvalue: { ok: true } })]),
+    });
+    const app = makeApp([queue]);
+    const viewer = await request(app).get('/dash/api/queues/q/jobs?state=completed').set('x-role', 'viewer');
+    expect(viewer.status).toBe(200);
+    expect(viewer.body.items[0].id).toBe('1');
+    expect(viewer.body.items[0]).not.toHaveProperty('data');
+    expect(viewer.body.items[0]).not.toHaveProperty('returnvalue');
+
+    const analyst = await request(app).get('/dash/api/queues/q/jobs?state=completed').set('x-role', 'analyst');
+    expect(analyst.body.items[0].data).toEqual({ secret: 1 });
+  });
+
+  it('gates export behind job:readData', async () => {
+    const app = makeApp([mockQueue('q')]);
+    expect((await request(app).get('/dash/api/queues/q/export').set('x-role', 'viewer')).status).toBe(403);
+    expect((await request(app).get('/dash/api/queues/q/export').set('x-role', 'analyst')).status).toBe(200);
+  });
+});
+
+describe('RBAC flow trees', () => {
+  // parent on tenant-a-jobs -> child on tenant-a-jobs and child on tenant-b-jobs
+  function flowQueues() {
+    const parent = mockJob('p', { getState: vi.fn().mockResolvedValue('waiting-children') });
+    const own = mockJob('c1', { parentId: 'p', parentQueue: 'tenant-a-jobs', usage: { totalTokens: 10, totalCost: 1 } });
+    const other = mockJob('c2', {
+      parentId: 'p', parentQueue: 'tenant-a-jobs', name: 'secret-job', failedReason: 'leak',
+      usage: { totalTokens: 500, totalCost: 50 },
+    });
+    const a = mockQueue('tenant-a-jobs', {
+      getJob: vi.fn().mockImplementation(async (id: string) => (id === 'p' ? parent : id === 'c1' ? own : null)),
+      getJobs: vi.fn().mockImplementation(async (state: string) => (state === 'waiting' ? [own] : [])),
+    });
+    const b = mockQueue('tenant-b-jobs', {
+      getJob: vi.fn().mockImplementation(async (id: string) => (id === 'c2' ? other : null)),
+      getJobs: vi.fn().mockImplementation(async (state: string) => (state === 'waiting' ? [other] : [])),
+    });
+    return [a, b];
+  }
+
+  it('leaves out jobs on queues the caller cannot read', async () => {
+    const [a, b] = flowQueues();
+    const res = await request(makeApp([a, b])).get('/dash/api/queues/tenant-a-jobs/flows/p/tree').set('x-role', 'tenant-a');
+    expect(res.status).toBe(200);
+    expect(res.body.root.children.map((c: any) => c.id)).toEqual(['c1']);
+    expect(JSON.stringify(res.body)).not.toContain('leak');
+    expect(b.getJobs).not.toHaveBeenCalled();
+  });
+
+  it('does not walk up to a parent on an unreadable queue', async () => {
+    const [a, b] = flowQueues();
+    const res = await request(makeApp([a, b], {
+      rbac: { roles: { b: { actions: ['job:read'], queues: ['tenant-b-jobs'] } }, resolveRole: () => 'b' },
+    })).get('/dash/api/queues/tenant-b-jobs/flows/c2/tree');
+    expect(res.status).toBe(200);
+    expect(res.body.rootReached).toBe(false);
+    expect(res.body.root.id).toBe('c2');
+    expect(a.getJob).not.toHaveBeenCalled();
+  });
+
+  it('hides usage and cost without usage:read', async () => {
+    const app = makeApp(flowQueues());
+    const viewer = await request(app).get('/dash/api/queues/tenant-a-jobs/flows/p/tree').set('x-role', 'viewer');
+    expect(viewer.body.root.children[0]).not.toHaveProperty('usage');
+    expect(viewer.body.root.subtree).toEqual({ jobs: 3, pending: 3, tokens: 0, cost: 0 });
+
+    const admin = await request(app).get('/dash/api/queues/tenant-a-jobs/flows/p/tree').set('x-role', 'admin');
+    expect(admin.body.root.subtree).toMatchObject({ tokens: 510, cost: 51 });
+  });
+});
+
+describe('RBAC mutations', () => {
+  it('denies mutations the role does not grant', async () => {
+    const queue = mockQueue('q');
+    const res = await request(makeApp([queue])).post('/dash/api/queues/q/pause').set('x-role', 'viewer');
+    expect(res.status).toBe(403);
+    expect(queue.pause).not.toHaveBeenCalled();
+  });
+
+  it('scopes mutations per queue', async () => {
+    const a = mockQueue('tenant-a-emails');
+    const b = mockQueue('tenant-b-emails');
+    const app = makeApp([a, b]);
+    expect((await request(app).post('/dash/api/queues/tenant-a-emails/pause').set('x-role', 'tenant-a')).status).toBe(200);
+    expect((await request(app).post('/dash/api/queues/tenant-b-emails/pause').set('x-role', 'tenant-a')).status).toBe(403);
+    expect(b.pause).not.toHaveBeenCalled();
+  });
+
+  it('requires authorize to pass as well', async () => {
+    const queue = mockQueue('q');
+    const authorize = vi.fn().mockReturnValue(false);
+    const res = await request(makeApp([queue], { authorize })).post('/dash/api/queues/q/pause').set('x-role', 'admin');
+    expect(res.status).toBe(403);
+    expect(authorize).toHaveBeenCalledWith(expect.anything(), 'queue:pause');
+    expect(queue.pause).not.toHaveBeenCalled();
+  });
+
+  it('records RBAC denials in the audit log', async () => {
+    const sink = { record: vi.fn() };
+    await request(makeApp([mockQueue('q')], { audit: { sink } })).post('/dash/api/queues/q/drain').set('x-role', 'viewer');
+    expect(sink.record).toHaveBeenCalledWith(expect.objectContaining({ action: 'queue:drain', outcome: 'denied' }));
+  });
+});
+
+describe('GET /api/me', () => {
+  it('reports the caller roles and per-queue actions', async () => {
+    const app = makeApp([mockQueue('tenant-a-emails'), mockQueue('tenant-b-emails')]);
+    const res = await request(app).get('/dash/api/me').set('x-role', 'tenant-a');
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ rbac: true, readOnly: false, roles: ['tenant-a'] });
+    expect(Object.keys(res.body.queues)).toEqual(['tenant-a-emails']);
+    expect(res.body.queues['tenant-a-emails']).toEqual(expect.arrayContaining(['queue:pause', 'job:readData']));
+    expect(res.body.queues['tenant-a-emails']).not.toContain('dlq:purge');
+  });
+
+  it('drops mutations in read-only mode and when authorize refuses them', async () => {
+    const readOnly = await request(makeApp([mockQueue('q')], { readOnly: true })).get('/dash/api/me').set('x-role', 'admin');
+    expect(readOnly.body.actions).toEqual(['queue:read', 'job:read', 'job:readData', 'usage:read', 'audit:read', 'job:readUnredacted']);
+
+    const authorize = vi.fn((_req: unknown, action: string) => action !== 'queue:obliterate');
+    const res = await request(makeApp([mockQueue('q')], { authorize })).get('/dash/api/me').set('x-role', 'admin');
+    expect(res.body.queues.q).toContain('queue:pause');
+    expect(res.body.queues.q).not.toContain('queue:obliterate');
+  });
+
+  it('asks authorizeActions once instead of authorize per action', async () => {
+    const authorize = vi.fn().mockReturnValue(true);
+    const authorizeActions = vi.fn(async (_req: unknown, actions: string[]) => actions.filter((a) => a !== 'queue:drain'));
+    const res = await request(makeApp([mockQueue('q')], { authorize, authorizeActions })).get('/dash/api/me').set('x-role', 'admin');
+    expect(authorizeActions).toHaveBeenCalledTimes(1);
+    expect(authorizeActions.mock.calls[0][1]).toContain('queue:obliterate');
+    expect(authorize).not.toHaveBeenCalled();
+    expect(res.body.queues.q).toContain('queue:obliterate');
+    expect(res.body.queues.q).not.toContain('queue:drain');
+  });
+
+  it('reports everything when RBAC is off', async () => {
+    const app = makeDashboardApp([mockQueue('q')]);
+    const res = await request(app).get('/dash/api/me');
+    expect(res.body).toMatchObject({ rbac: false, roles: null });
+    expect(res.body.queues.q).toContain('queue:obliterate');
+  });
+});
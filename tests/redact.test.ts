@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { createDashboardCore } from '../src/index';
+import { createRedaction } from '../src/redact';
+import { mockJob, mockQueue, makeApp, mockQueueEvents } from './helpers';
+
+describe('createRedaction', () => {
+  it('masks JSON paths, key patterns and value patterns', () => {
+    const redact = createRedaction([{
+      paths: ['$.data.user.email', '$.data.items[*].token', '$.logs[1]'],
+      keys: ['*apikey*', /^password$/],
+      values: [/sk-[a-z0-9]+/],
+    }])('q')!;
+    const result = redact({
+      id: '1',
+      data: { user: { email: 'a@b.c', name: 'Ann' }, items: [{ token: 't1', n: 1 }], openaiApiKey: 'x', prompt: 'use sk-abc123 now' },
+      opts: { password: 'p' },
+      returnvalue: 'ok',
+      logs: ['start', 'secret line'],
+    });
+    expect(result).toEqual({
+      id: '1',
+      data: { user: { email: '[REDACTED]', name: 'Ann' }, items: [{ token: '[REDACTED]', n: 1 }], openaiApiKey: '[REDACTED]', prompt: 'use [REDACTED] now' },
+      opts: { password: '[REDACTED]' },
+      returnvalue: 'ok',
+      logs: ['start', '[REDACTED]'],
+      redacted: true,
+    });
+  });
+
+  it('passes leaves and their paths to a custom function', () => {
+    const custom = vi.fn((value: unknown, path: string) => (path === '$.returnvalue.text' ? '***' : value));
+    const result = createRedaction([{ custom }])('q')!({ data: { n: 1 }, returnvalue: { text: 'hi' } });
+    expect(result).toEqual({ data: { n: 1 }, returnvalue: { text: '***' }, redacted: true });
+    expect(custom).toHaveBeenCalledWith(1, '$.data.n', 'q');
+  });
+
+  it('scopes rules to queues and leaves clean records unflagged', () => {
+    const forQueue = createRedaction([{ queues: ['pay*'], keys: ['card'], replacement: '<hidden>' }]);
+    expect(forQueue('emails')).toBeNull();
+    expect(forQueue('payments')!({ data: { card: '4242' } })).toEqual({ data: { card: '<hidden>' }, redacted: true });
+    expect(forQueue('payments')!({ data: { amount: 5 } })).toEqual({ data: { amount: 5 } });
+  });
+
+  it('rejects malformed paths up front', () => {
+    expect(() => createRedaction([{ paths: ['data.email'] }])).toThrow(/must start with \$/);
+    expect(() => createRedaction([{ paths: ['$.data[oops]'] }])).toThrow(/Invalid redaction path/);
+  });
+});
+
+describe('redaction in routes', () => {
+  const redact = [{ keys: ['email'] }];
+
+  function secretQueue() {
+    const job = mockJob('1', { data: { email: 'a@b.c', plan: 'pro' }, getState: vi.fn().mockResolvedValue('completed') });
+    return mockQueue('q', {
+      getJobs: vi.fn().mockResolvedValue([job]),
+      getJob: vi.fn().mockResolvedValue(job),
+      searchJobs: vi.fn().mockResolvedValue([job]),
+      getDeadLetterJobs: vi.fn().mockResolvedValue([job]),
+      getJobLogs: vi.fn().mockResolvedValue({ logs: ['sent to a@b.c'], count: 1 }),
+    });
+  }
+
+  it('redacts job lists, search, DLQ and export', async () => {
+    const app = makeApp([secretQueue()], { redact });
+    for (const path of ['/jobs?state=completed', '/search?name=test-job', '/dlq']) {
+      const res = await request(app).get(`/dash/api/queues/q${path}`);
+      const [job] = res.body.items ?? res.body;
+      expect(job.data).toEqual({ email: '[REDACTED]', plan: 'pro' });
+      expect(job.redacted).toBe(true);
+    }
+    const exported = await request(app).get('/dash/api/queues/q/export?state=completed');
+    expect(exported.text).toContain('"email":"[REDACTED]"');
+    expect(exported.text).not.toContain('a@b.c');
+  });
+
+  it('redacts logs on the single-job route', async () => {
+    const res = await request(makeApp([secretQueue()], { redact: [{ values: [/\S+@\S+/] }] })).get('/dash/api/queues/q/job/1');
+    expect(res.body.logs).toEqual(['sent to [REDACTED]']);
+    expect(res.body.data.email).toBe('[REDACTED]');
+  });
+
+  it('shows raw values to roles holding job:readUnredacted', async () => {
+    const app = makeApp([secretQueue()], {
+      redact,
+      rbac: {
+        roles: { admin: ['*'], support: ['queue:read', 'job:read', 'job:readData'] },
+        resolveRole: (req: express.Request) => req.header('x-role'),
+      },
+    });
+    const admin = await request(app).get('/dash/api/queues/q/job/1').set('x-role', 'admin');
+    expect(admin.body.data.email).toBe('a@b.c');
+    expect(admin.body.redacted).toBeUndefined();
+    const support = await request(app).get('/dash/api/queues/q/job/1').set('x-role', 'support');
+    expect(support.body.data.email).toBe('[REDACTED]');
+  });
+
+  it('redacts failure reasons and stack traces in failures, DLQ groups, flow trees and timelines', async () => {
+    const job = mockJob('1', {
+      failedReason: 'no account for a@b.c',
+      stacktrace: ['Error: no account for a@b.c\n    at lookup (/app/users.js:3:9)'],
+      finishedOn: 200,
+      getState: vi.fn().mockResolvedValue('failed'),
+    });
+    const q = mockQueue('q', {
+      getJobs: vi.fn().mockResolvedValue([job]),
+      getJob: vi.fn().mockResolvedValue(job),
+      getDeadLetterJobs: vi.fn().mockResolvedValue([job]),
+    });
+    const app = makeApp([q], { redact: [{ values: [/\S+@\S+/] }] });
+    const get = async (path: string) => (await request(app).get(`/dash/api/queues/q${path}`)).body;
+
+    const failures = await get('/failures');
+    expect(failures.groups[0].message).toBe('no account for [REDACTED]');
+    const detail = await get(`/failures/${failures.groups[0].fingerprint}`);
+    expect(detail[0].failedReason).toBe('no account for [REDACTED]');
+    const dlq = await get('/dlq/groups');
+    expect(dlq.groups[0].failedReason).toBe('no account for [REDACTED]');
+    expect((await get('/flows/1/tree')).root.failedReason).toBe('no account for [REDACTED]');
+    const timeline = await get('/jobs/1/timeline');
+    expect(timeline.entries.find((e: any) => e.kind === 'failed').detail).toBe('no account for [REDACTED]');
+
+    const requeue = await request(app).post('/dash/api/queues/q/dlq/requeue').send({ filter: { failedReason: dlq.groups[0].failedReason } });
+    expect(requeue.body.total).toBe(1);
+  });
+
+  it('redacts SSE event payloads', async () => {
+    const events = mockQueueEvents('q');
+    const core = createDashboardCore([secretQueue()] as any, { queueEvents: [events] as any, redact: [{ keys: ['token'] }] });
+    const response = await core.match('GET', '/api/events')!.route.handler({
+      method: 'GET', params: {}, query: {}, body: undefined, header: () => undefined, raw: {},
+    });
+    const chunks: string[] = [];
+    if (response.type !== 'stream') throw new Error('expected a stream');
+    await response.start({ write: (c) => { chunks.push(c); }, end: () => {}, onClose: () => {}, closed: false });
+    events.emit('completed', { jobId: '1', returnvalue: { token: 'abc', ok: true } });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(chunks.join('')).toContain('"returnvalue":{"token":"[REDACTED]","ok":true}');
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import { memorySchedulerStore } from '../src/index';
+import { nextCronTimes, parseCron } from '../src/cron';
+import { mockJob, mockQueue, makeApp } from './helpers';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function fireTimes(pattern: string, tz: string, after: string, count: number) {
+  const parsed = parseCron(pattern);
+  if ('error' in parsed) throw new Error(parsed.error);
+  return nextCronTimes(parsed.cron, tz, Date.parse(after), count).map((t) => new Date(t).toISOString());
+}
+
+describe('parseCron', () => {
+  it('explains what is wrong with a pattern', () => {
+    expect(parseCron('61 * * * *')).toEqual({ error: 'minute: 61 is out of range 0-59' });
+    expect(parseCron('* * *')).toEqual({ error: expect.stringMatching(/^expected 5 fields .* got 3$/) });
+    expect(parseCron('0 9 * * FUN')).toEqual({ error: 'day of week: "FUN" is not a number or name' });
+    expect(parseCron('5-2 * * * *')).toEqual({ error: 'minute: range 5-2 runs backwards' });
+    expect(parseCron('*/0 * * * *')).toEqual({ error: 'minute: step "0" must be a positive integer' });
+    expect(parseCron('0 0 L * *')).toEqual({ error: expect.stringContaining('not supported') });
+    expect(parseCron('@sometimes')).toEqual({ error: 'unknown macro "@sometimes"' });
+  });
+});
+
+describe('nextCronTimes', () => {
+  it('steps through minutes, names and seconds', () => {
+    expect(fireTimes('*/20 * * * *', 'UTC', '2026-03-07T12:05:00Z', 3))
+      .toEqual(['2026-03-07T12:20:00.000Z', '2026-03-07T12:40:00.000Z', '2026-03-07T13:00:00.000Z']);
+    expect(fireTimes('0 9 * * mon-fri', 'UTC', '2026-03-06T10:00:00Z', 2))
+      .toEqual(['2026-03-09T09:00:00.000Z', '2026-03-10T09:00:00.000Z']);
+    expect(fireTimes('*/30 * * * * *', 'UTC', '2026-03-07T12:00:00Z', 2))
+      .toEqual(['2026-03-07T12:00:30.000Z', '2026-03-07T12:01:00.000Z']);
+  });
+
+  it('matches either day field when both are restricted', () => {
+    expect(fireTimes('0 0 1 * 1', 'UTC', '2026-03-01T12:00:00Z', 3))
+      .toEqual(['2026-03-02T00:00:00.000Z', '2026-03-09T00:00:00.000Z', '2026-03-16T00:00:00.000Z']);
+  });
+
+  it('follows the time zone across daylight saving changes', () => {
+    // 02:30 does not exist in New York on 8 March 2026, so that day is skipped.
+    expect(fireTimes('30 2 * * *', 'America/New_York', '2026-03-07T12:00:00Z', 2))
+      .toEqual(['2026-03-09T06:30:00.000Z', '2026-03-10T06:30:00.000Z']);
+    // 01:00 happens twice on 1 November 2026; it fires on the first.
+    expect(fireTimes('0 1 * * *', 'America/New_York', '2026-11-01T00:00:00Z', 2))
+      .toEqual(['2026-11-01T05:00:00.000Z', '2026-11-02T06:00:00.000Z']);
+  });
+
+  it('finds rare dates and gives up on impossible ones', () => {
+    expect(fireTimes('0 0 29 2 *', 'UTC', '2026-03-01T00:00:00Z', 1)).toEqual(['2028-02-29T00:00:00.000Z']);
+    expect(fireTimes('0 0 31 2 *', 'UTC', '2026-03-01T00:00:00Z', 1)).toEqual([]);
+  });
+});
+
+describe('scheduler routes', () => {
+  const entry = { pattern: '0 * * * *', tz: 'UTC', nextRun: 1, template: { name: 'report', data: { kind: 'hourly' }, opts: { priority: 2 } } };
+
+  function setup(opts?: Record<string, unknown>) {
+    let schedulers = [{ name: 'hourly', entry }];
+    const q = mockQueue('q', {
+      getRepeatableJobs: vi.fn(async () => schedulers),
+      removeJobScheduler: vi.fn(async (name: string) => { schedulers = schedulers.filter((s) => s.name !== name); }),
+      upsertJobScheduler: vi.fn(async (name: string, schedule: any, template: any) => {
+        schedulers = [...schedulers.filter((s) => s.name !== name), { name, entry: { ...schedule, template } }];
+      }),
+      add: vi.fn().mockResolvedValue({ id: '77' }),
+    });
+    return { app: makeApp([q], { schedulerStore: memorySchedulerStore(), ...opts }), q };
+  }
+
+  it('rejects invalid schedules with a readable error', async () => {
+    const { app, q } = setup();
+    const post = (schedule: unknown) => request(app).post('/dash/api/queues/q/schedulers').send({ name: 's', schedule });
+    expect((await post({ pattern: '0 25 * * *' })).body.error).toBe('schedule.pattern: hour: 25 is out of range 0-23');
+    expect((await post({ pattern: '* * * * *', every: 1000 })).body.error).toBe('schedule needs exactly one of pattern, every or repeatAfterComplete');
+    expect((await post({ every: -5 })).body.error).toBe('schedule.every must be a positive integer (ms)');
+    expect((await post({ pattern: '0 * * * *', tz: 'Mars/Olympus' })).body.error).toBe('schedule.tz "Mars/Olympus" is not a known time zone');
+    expect((await post({ pattern: '0 0 30 2 *' })).body.error).toBe('schedule.pattern never fires');
+    expect(q.upsertJobScheduler).not.toHaveBeenCalled();
+    expect((await post({ pattern: '0 9 * * 1-5', tz: 'Europe/Berlin' })).status).toBe(200);
+  });
+
+  it('previews the next fire times in a time zone', async () => {
+    vi.useFakeTimers({ now: Date.parse('2026-05-31T12:00:00Z'), toFake: ['Date'] });
+    const { app } = setup();
+    const res = await request(app).get('/dash/api/queues/q/schedulers/preview?pattern=0%209%20*%20*%20*&tz=Asia/Tokyo&count=2');
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ tz: 'Asia/Tokyo', times: [Date.parse('2026-06-01T00:00:00Z'), Date.parse('2026-06-02T00:00:00Z')] });
+    const every = await request(app).get('/dash/api/queues/q/schedulers/preview?every=60000&count=2');
+    expect(every.body.times).toEqual([Date.now() + 60000, Date.now() + 120000]);
+    expect((await request(app).get('/dash/api/queues/q/schedulers/preview?pattern=nope')).status).toBe(400);
+  });
+
+  it('pauses a scheduler and resumes it unchanged', async () => {
+    const { app, q } = setup();
+    expect((await request(app).post('/dash/api/queues/q/schedulers/hourly/pause')).body).toEqual({ status: 'paused' });
+    expect(q.removeJobScheduler).toHaveBeenCalledWith('hourly');
+    const list = await request(app).get('/dash/api/queues/q/schedulers');
+    expect(list.body).toEqual([{ name: 'hourly', entry, paused: true, pausedAt: expect.any(Number) }]);
+    expect((await request(app).post('/dash/api/queues/q/schedulers/hourly/pause')).status).toBe(409);
+
+    expect((await request(app).post('/dash/api/queues/q/schedulers/hourly/resume')).body).toEqual({ status: 'resumed' });
+    expect(q.upsertJobScheduler).toHaveBeenCalledWith('hourly', { pattern: '0 * * * *', tz: 'UTC' }, entry.template);
+    expect((await request(app).get('/dash/api/queues/q/schedulers')).body).toHaveLength(1);
+    expect((await request(app).post('/dash/api/queues/q/schedulers/hourly/resume')).status).toBe(404);
+    expect((await request(app).post('/dash/api/queues/q/schedulers/missing/pause')).status).toBe(404);
+  });
+
+  it('keeps a scheduler active and unpaused when removing it fails', async () => {
+    const { app, q } = setup();
+    q.removeJobScheduler.mockRejectedValueOnce(new Error('down'));
+    expect((await request(app).post('/dash/api/queues/q/schedulers/hourly/pause')).status).toBe(500);
+    expect((await request(app).get('/dash/api/queues/q/schedulers')).body).toEqual([{ name: 'hourly', entry }]);
+    expect((await request(app).post('/dash/api/queues/q/schedulers/hourly/pause')).body).toEqual({ status: 'paused' });
+  });
+
+  it('hides template data without job:readData and redacts it', async () => {
+    const rbac = { roles: { viewer: ['queue:read', 'job:read'], analyst: ['queue:read', 'job:read', 'job:readData'] }, resolveRole: (req: any) => req.header('x-role') };
+    const { app } = setup({ rbac, redact: [{ keys: ['kind'] }] });
+    const list = async (role: string) => (await request(app).get('/dash/api/queues/q/schedulers').set('x-role', role)).body[0].entry.template;
+    expect(await list('viewer')).toEqual({ name: 'report', opts: { priority: 2 } });
+    expect(await list('analyst')).toEqual({ name: 'report', data: { kind: '[REDACTED]' }, opts: { priority: 2 }, redacted: true });
+  });
+
+  it('refuses to pause without a schedulerStore', async () => {
+    const { app, q } = setup({ schedulerStore: undefined });
+    const res = await request(app).post('/dash/api/queues/q/schedulers/hourly/pause');
+    expect(res.status).toBe(501);
+    expect(q.removeJobScheduler).not.toHaveBeenCalled();
+    expect((await request(app).get('/dash/api/queues/q/schedulers')).body).toEqual([{ name: 'hourly', entry }]);
+  });
+
+  it('runs a scheduler now from its template', async () => {
+    const { app, q } = setup();
+    const res = await request(app).post('/dash/api/queues/q/schedulers/hourly/run');
+    expect(res.body).toEqual({ status: 'ok', id: '77' });
+    expect(q.add).toHaveBeenCalledWith('report', { kind: 'hourly' }, { priority: 2 });
+  });
+
+  it('guards pause, resume and run with their own actions', async () => {
+    const { app, q } = setup({ authorize: (_req: unknown, action: string) => action !== 'scheduler:run' });
+    expect((await request(app).post('/dash/api/queues/q/schedulers/hourly/run')).status).toBe(403);
+    expect(q.add).not.toHaveBeenCalled();
+    expect((await request(app).post('/dash/api/queues/q/schedulers/hourly/pause')).status).toBe(200);
+  });
+
+  it('lists recent runs found by schedulerName', async () => {
+    const q = mockQueue('q', {
+      getJobs: vi.fn(async (state: string) => (state === 'completed'
+        ? [mockJob('1', { schedulerName: 'hourly', timestamp: 100 }), mockJob('2', { timestamp: 300 })]
+        : state === 'failed' ? [mockJob('3', { schedulerName: 'hourly', timestamp: 200 })] : [])),
+    });
+    const res = await request(makeApp([q])).get('/dash/api/queues/q/schedulers/hourly/runs');
+    expect(res.status).toBe(200);
+    expect(res.body.runs.map((r: any) => [r.id, r.state])).toEqual([['3', 'failed'], ['1', 'completed']]);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { validateSchema } from '../src/schema';
+import type { JsonSchema } from '../src/schema';
+
+describe('validateSchema', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    required: ['id', 'tags'],
+    additionalProperties: false,
+    properties: {
+      id: { type: 'integer', minimum: 1 },
+      email: { type: 'string', pattern: '^[^@]+@[^@]+$' },
+      tags: { type: 'array', items: { type: 'string', minLength: 1 }, maxItems: 2 },
+      mode: { enum: ['fast', 'slow'] },
+      note: { type: ['string', 'null'] },
+    },
+  };
+
+  it('accepts matching values', () => {
+    expect(validateSchema(schema, { id: 3, email: 'a@b.c', tags: ['x'], mode: 'fast', note: null })).toEqual([]);
+  });
+
+  it('reports every mismatch with its path', () => {
+    expect(validateSchema(schema, { id: 1.5, email: 'nope', tags: ['', 'a', 'b'], mode: 'medium', extra: 1 })).toEqual([
+      '$.id must be integer',
+      '$.email must match ^[^@]+@[^@]+$',
+      '$.tags must have at most 2 items',
+      '$.tags[0] must be at least 1 characters',
+      '$.mode must be one of "fast", "slow"',
+      '$.extra is not allowed',
+    ]);
+    expect(validateSchema(schema, [])).toEqual(['$ must be object']);
+  });
+
+  it('supports anyOf, allOf and const', () => {
+    const s: JsonSchema = { anyOf: [{ type: 'number' }, { const: 'auto' }], allOf: [{ not: 'ignored' }] };
+    expect(validateSchema(s, 3)).toEqual([]);
+    expect(validateSchema(s, 'auto')).toEqual([]);
+    expect(validateSchema(s, 'manual')).toEqual(['$ must match at least one allowed shape']);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi } from 'vitest';
+import request from 'supertest';
+import { matchesQuery, parseJobQuery } from '../src/query';
+import { mockJob, mockQueue, makeApp } from './helpers';
+
+function parse(text: string, now = 0) {
+  const parsed = parseJobQuery(text, now);
+  if ('error' in parsed) throw new Error(parsed.error);
+  return parsed.query;
+}
+
+describe('parseJobQuery', () => {
+  it('groups terms with AND, OR and parentheses', () => {
+    expect(parse('charge failedReason~timeout OR (attemptsMade>=3 AND data.user.id:42)')).toEqual({
+      or: [
+        { and: [{ path: ['name'], op: ':', value: 'charge' }, { path: ['failedReason'], op: '~', value: 'timeout' }] },
+        { and: [{ path: ['attemptsMade'], op: '>=', value: 3 }, { path: ['data', 'user', 'id'], op: ':', value: 42 }] },
+      ],
+    });
+  });
+
+  it('reads times as epoch ms, ISO dates and offsets from now', () => {
+    expect(parse('finishedOn:2026-10-01..2026-10-02')).toEqual({
+      and: [
+        { path: ['finishedOn'], op: '>=', value: Date.parse('2026-10-01') },
+        { path: ['finishedOn'], op: '<', value: Date.parse('2026-10-02') },
+      ],
+    });
+    expect(parse('processedOn>now-2h', 10_000_000)).toEqual({ path: ['processedOn'], op: '>', value: 10_000_000 - 7_200_000 });
+    expect(parse('timestamp:..5000')).toEqual({ path: ['timestamp'], op: '<', value: 5000 });
+  });
+
+  it('explains what is wrong and where', () => {
+    expect(parseJobQuery('colour:red')).toEqual({ error: expect.stringMatching(/^unknown field "colour"/), at: 0 });
+    expect(parseJobQuery('name:a AND attemptsMade>lots')).toEqual({ error: 'attemptsMade needs a non-negative integer, got "lots"', at: 11 });
+    expect(parseJobQuery('orderingKey~abc')).toEqual({ error: 'orderingKey supports :, not ~', at: 0 });
+    expect(parseJobQuery('timestamp>yesterday')).toMatchObject({ error: expect.stringContaining('"yesterday" is not a time') });
+    expect(parseJobQuery('(name:a OR name:b')).toEqual({ error: 'missing closing parenthesis', at: 0 });
+    expect(parseJobQuery('name:a OR')).toEqual({ error: 'query ends where a term was expected', at: 9 });
+    expect(parseJobQuery('failedReason~"oops')).toEqual({ error: 'unterminated quoted value', at: 13 });
+    expect(parseJobQuery('state:done')).toMatchObject({ error: expect.stringContaining('state "done" is not one of') });
+  });
+});
+
+describe('matchesQuery', () => {
+  const job = {
+    name: 'charge', state: 'failed', attemptsMade: 3, failedReason: 'Gateway Timeout', parentId: 7,
+    timestamp: 1000, data: { user: { id: '42', tags: ['vip'] }, amount: 250 },
+  };
+
+  it('compares keys as text and data values by type', () => {
+    expect(matchesQuery(parse('parentId:7 data.user.id:42'), job)).toBe(true);
+    expect(matchesQuery(parse('data.amount>200 data.amount<=250'), job)).toBe(true);
+    expect(matchesQuery(parse('data.user.tags.0:vip'), job)).toBe(true);
+    expect(matchesQuery(parse('data.user.id:"43" OR data.missing.deep:1'), job)).toBe(false);
+  });
+
+  it('matches failedReason case-insensitively and names exactly', () => {
+    expect(matchesQuery(parse('failedReason~timeout'), job)).toBe(true);
+    expect(matchesQuery(parse('name:charg'), job)).toBe(false);
+    expect(matchesQuery(parse('name~charg state:failed'), job)).toBe(true);
+  });
+});
+
+describe('GET /api/queues/:name/search?q=', () => {
+  function queue() {
+    const jobs: Record<string, any[]> = {
+      failed: [
+        mockJob('1', { name: 'charge', attemptsMade: 3, failedReason: 'timeout', timestamp: 300, data: { tenant: 'a' } }),
+        mockJob('2', { name: 'charge', attemptsMade: 1, failedReason: 'declined', timestamp: 200, data: { tenant: 'b' } }),
+      ],
+      completed: [mockJob('3', { name: 'charge', attemptsMade: 5, timestamp: 100, data: { tenant: 'a' } })],
+    };
+    return mockQueue('q', { getJobs: vi.fn(async (state: string) => jobs[state] ?? []) });
+  }
+
+  it('filters scanned jobs and returns the newest first', async () => {
+    const q = queue();
+    const app = makeApp([q]);
+    const res = await request(app).get('/dash/api/queues/q/search').query({ q: 'attemptsMade>=3 AND data.tenant:a' });
+    expect(res.status).toBe(200);
+    expect(res.body.items.map((j: any) => [j.id, j.state])).toEqual([['1', 'failed'], ['3', 'completed']]);
+    expect(res.body.truncated).toBe(false);
+    expect(q.searchJobs).not.toHaveBeenCalled();
+    const failedOnly = await request(app).get('/dash/api/queues/q/search').query({ q: 'charge', state: 'failed', limit: '1' });
+    expect(failedOnly.body.items.map((j: any) => j.id)).toEqual(['1']);
+  });
+
+  it('rejects invalid queries, states and data with a 400', async () => {
+    const app = makeApp([queue()]);
+    const res = await request(app).get('/dash/api/queues/q/search').query({ q: 'charge colour:red' });
+    expect(res.status).toBe(400);
+    expect(res.body).toEqual({ error: 'q: unknown field "colour"; use timestamp, processedOn, finishedOn, attemptsMade, name, failedReason, orderingKey, budgetKey, parentId, state or data.<path> (column 8)', at: 7 });
+    expect((await request(app).get('/dash/api/queues/q/search').query({ q: 'attemptsMade=3' })).body.error)
+      .toBe('q: "attemptsMade=3" uses an unknown operator; use >= <= : ~ > < (column 1)');
+    expect((await request(app).get('/dash/api/queues/q/search?state=bogus')).status).toBe(400);
+    expect((await request(app).get('/dash/api/queues/q/search?data={nope')).body.error).toBe('data must be valid JSON');
+    expect((await request(app).get('/dash/api/queues/q/search?q=charge&name=charge')).status).toBe(400);
+  });
+
+  it('needs job:readData to query data paths', async () => {
+    const app = makeApp([queue()], {
+      rbac: { roles: { viewer: { actions: ['job:read'] } }, resolveRole: () => 'viewer' },
+    });
+    expect((await request(app).get('/dash/api/queues/q/search').query({ q: 'data.tenant:a' })).status).toBe(403);
+    expect((await request(app).get('/dash/api/queues/q/search').query({ q: 'failedReason~time' })).body.items).toHaveLength(1);
+  });
+
+  it('flags results as truncated when a state has more jobs than are scanned', async () => {
+    const getJobs = vi.fn(async (state: string, start: number, end: number) => (state === 'completed'
+      ? Array.from({ length: end - start + 1 }, (_, i) => mockJob(String(start + i), { name: 'other' }))
+      : []));
+    const res = await request(makeApp([mockQueue('q', { getJobs })])).get('/dash/api/queues/q/search').query({ q: 'charge' });
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ items: [], truncated: true });
+    expect(getJobs.mock.calls.filter((c) => c[0] === 'completed')).toHaveLength(5);
+  });
+});
+
+describe('GET /api/queues/:name/search response shape', () => {
+  it('wraps name searches in the same envelope, and format=array returns the plain array', async () => {
+    const q = mockQueue('q', { searchJobs: vi.fn().mockResolvedValue([mockJob('1', { name: 'charge' })]) });
+    const app = makeApp([q]);
+    const byName = await request(app).get('/dash/api/queues/q/search?name=charge');
+    expect(byName.body).toMatchObject({ items: [{ id: '1' }], truncated: false });
+    const plain = await request(app).get('/dash/api/queues/q/search?name=charge&format=array');
+    expect(plain.body).toMatchObject([{ id: '1' }]);
+    const query = await request(app).get('/dash/api/queues/q/search?q=charge&format=array');
+    expect(Array.isArray(query.body)).toBe(true);
+    expect((await request(app).get('/dash/api/queues/q/search?name=charge&format=page')).status).toBe(400);
+  });
+});
+
+describe('saved searches', () => {
+  it('saves, lists, replaces and removes searches by name', async () => {
+    const app = makeApp([mockQueue('q')]);
+    const save = (body: unknown) => request(app).post('/dash/api/queues/q/searches').send(body as object);
+    const saved = await save({ name: 'Slow retries', query: 'attemptsMade>=3', state: 'failed' });
+    expect(saved.body).toEqual({
+      status: 'ok',
+      search: { queue: 'q', name: 'Slow retries', query: 'attemptsMade>=3', state: 'failed', createdAt: expect.any(Number), updatedAt: expect.any(Number) },
+    });
+    await save({ name: 'All timeouts', query: 'failedReason~timeout' });
+    await save({ name: 'Slow retries', query: 'attemptsMade>=5' });
+    const list = await request(app).get('/dash/api/queues/q/searches');
+    expect(list.body.map((s: any) => [s.name, s.query, s.state])).toEqual([
+      ['All timeouts', 'failedReason~timeout', null],
+      ['Slow retries', 'attemptsMade>=5', null],
+    ]);
+    expect((await request(app).delete('/dash/api/queues/q/searches/Slow%20retries')).body).toEqual({ status: 'removed' });
+    expect((await request(app).delete('/dash/api/queues/q/searches/Slow%20retries')).status).toBe(404);
+  });
+
+  it('refuses queries that do not parse and guards removal with search:remove', async () => {
+    const app = makeApp([mockQueue('q')], { authorize: (_req: unknown, action: string) => action !== 'search:remove' });
+    const res = await request(app).post('/dash/api/queues/q/searches').send({ name: 'x', query: 'name:a AND' });
+    expect(res.body.error).toBe('query: query ends where a term was expected (column 11)');
+    await request(app).post('/dash/api/queues/q/searches').send({ name: 'x', query: 'name:a' });
+    expect((await request(app).delete('/dash/api/queues/q/searches/x')).status).toBe(403);
+  });
+});
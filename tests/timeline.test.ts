@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import request from 'supertest';
+import { backoffDelays } from '../src/timeline';
+import { mockJob, mockQueue, makeApp, mockQueueEvents } from './helpers';
+
+describe('backoffDelays', () => {
+  it('doubles exponential backoff and repeats fixed backoff', () => {
+    expect(backoffDelays({ type: 'exponential', delayMs: 1000 }, 3)).toEqual([1000, 2000, 4000]);
+    expect(backoffDelays({ type: 'fixed', delayMs: 500 }, 2)).toEqual([500, 500]);
+    expect(backoffDelays({ type: 'custom', delayMs: 0 }, 2)).toEqual([]);
+    expect(backoffDelays(null, 2)).toEqual([]);
+  });
+});
+
+describe('GET /api/queues/:name/jobs/:id/timeline', () => {
+  it('derives wait, processing and total times from the job', async () => {
+    const job = mockJob('1', {
+      timestamp: 1000,
+      processedOn: 6000,
+      finishedOn: 9000,
+      attemptsMade: 3,
+      failedReason: 'boom',
+      opts: { delay: 2000, attempts: 3, backoff: { type: 'exponential', delay: 100 } },
+      getState: vi.fn().mockResolvedValue('failed'),
+    });
+    const q = mockQueue('q', {
+      getJob: vi.fn().mockResolvedValue(job),
+      getJobLogs: vi.fn().mockResolvedValue({ logs: ['try 1', 'try 2'], count: 2 }),
+    });
+    const res = await request(makeApp([q])).get('/dash/api/queues/q/jobs/1/timeline');
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      state: 'failed',
+      attemptsMade: 3,
+      maxAttempts: 3,
+      durations: { delayMs: 2000, waitMs: 3000, processingMs: 3000, totalMs: 8000 },
+      backoff: { type: 'exponential', delayMs: 100 },
+      backoffDelays: [100, 200],
+      logs: ['try 1', 'try 2'],
+    });
+    expect(res.body.entries.map((e: any) => [e.time, e.kind])).toEqual([
+      [1000, 'created'], [3000, 'ready'], [6000, 'started'], [9000, 'failed'],
+    ]);
+    expect(res.body.entries[3].detail).toBe('boom');
+  });
+
+  it('merges the events seen for the job and measures retry gaps', async () => {
+    vi.useFakeTimers({ now: 10000, toFake: ['Date'] });
+    try {
+      const events = mockQueueEvents('q');
+      const job = mockJob('1', { timestamp: 9000, getState: vi.fn().mockResolvedValue('active') });
+      const app = makeApp([mockQueue('q', { getJob: vi.fn().mockResolvedValue(job) })], { queueEvents: [events] });
+      events.emit('active', { jobId: '1' });
+      vi.setSystemTime(11000);
+      events.emit('failed', { jobId: '1', failedReason: 'timeout' });
+      events.emit('active', { jobId: '2' });
+      vi.setSystemTime(11500);
+      events.emit('active', { jobId: '1' });
+
+      const res = await request(app).get('/dash/api/queues/q/jobs/1/timeline');
+      expect(res.body.entries.filter((e: any) => e.kind === 'event').map((e: any) => [e.time, e.label, e.detail])).toEqual([
+        [10000, 'active', undefined], [11000, 'failed', 'timeout'], [11500, 'active', undefined],
+      ]);
+      expect(res.body.retryGaps).toEqual([{ failedAt: 11000, retriedAt: 11500, gapMs: 500 }]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('leaves logs out without job:readData', async () => {
+    const q = mockQueue('q', { getJob: vi.fn().mockResolvedValue(mockJob('1')) });
+    const app = makeApp([q], {
+      rbac: { roles: { viewer: ['queue:read', 'job:read'] }, resolveRole: () => 'viewer' },
+    });
+    const res = await request(app).get('/dash/api/queues/q/jobs/1/timeline');
+    expect(res.status).toBe(200);
+    expect(res.body).not.toHaveProperty('logs');
+    expect(q.getJobLogs).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for an unknown job', async () => {
+    const res = await request(makeApp([mockQueue('q')])).get('/dash/api/queues/q/jobs/x/timeline');
+    expect(res.status).toBe(404);
+  });
+});
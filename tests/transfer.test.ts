@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from 'vitest';
+import request from 'supertest';
+import { parseCsv, parseImport } from '../src/transfer';
+import { mockJob, mockQueue, makeApp } from './helpers';
+
+function range(prefix: string, count: number) {
+  return Array.from({ length: count }, (_, i) => mockJob(`${prefix}${i}`, { timestamp: 1000 + i }));
+}
+
+describe('GET /api/queues/:name/export', () => {
+  it('streams NDJSON across pages beyond MAX_PAGE_SIZE', async () => {
+    const failed = range('f', 250);
+    const getJobs = vi.fn().mockImplementation(async (state: string, start: number, end: number) =>
+      (state === 'failed' ? failed.slice(start, end + 1) : []));
+    const app = makeApp([mockQueue('q', { getJobs })]);
+    const res = await request(app).get('/dash/api/queues/q/export?state=failed').buffer(true);
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toMatch(/ndjson/);
+    expect(res.headers['content-disposition']).toMatch(/attachment; filename="q-failed-\d+\.ndjson"/);
+    const lines = res.text.trim().split('\n').map((l) => JSON.parse(l));
+    expect(lines).toHaveLength(250);
+    expect(lines[0]).toMatchObject({ id: 'f0', name: 'test-job', data: { key: 'value' }, state: 'failed' });
+    expect(getJobs.mock.calls.map((c) => [c[1], c[2]])).toEqual([[0, 199], [200, 399]]);
+  });
+
+  it('writes CSV with JSON-encoded object columns and honours limit', async () => {
+    const jobs = [mockJob('1', { data: { note: 'a, "b"' } }), mockJob('2')];
+    const app = makeApp([mockQueue('q', { getJobs: vi.fn().mockResolvedValue(jobs) })]);
+    const res = await request(app).get('/dash/api/queues/q/export?format=csv&state=waiting&limit=1');
+    expect(res.headers['content-type']).toMatch(/text\/csv/);
+    const rows = parseCsv(res.text);
+    expect(rows[0].slice(0, 4)).toEqual(['id', 'name', 'state', 'data']);
+    expect(rows).toHaveLength(2);
+    expect(JSON.parse(rows[1][3])).toEqual({ note: 'a, "b"' });
+  });
+
+  it('uses searchJobs for a name filter', async () => {
+    const q = mockQueue('q', { searchJobs: vi.fn().mockResolvedValue([mockJob('s1')]) });
+    const res = await request(makeApp([q])).get('/dash/api/queues/q/export?state=failed&name=charge').buffer(true);
+    expect(q.searchJobs).toHaveBeenCalledWith({ state: 'failed', name: 'charge', limit: 10000 });
+    expect(JSON.parse(res.text.trim())).toMatchObject({ id: 's1', state: 'failed' });
+  });
+
+  it('validates the request', async () => {
+    const app = makeApp([mockQueue('q')]);
+    expect((await request(app).get('/dash/api/queues/q/export?format=xml')).status).toBe(400);
+    expect((await request(app).get('/dash/api/queues/q/export?state=bogus')).status).toBe(400);
+    expect((await request(app).get('/dash/api/queues/nope/export')).status).toBe(404);
+  });
+});
+
+describe('POST /api/queues/:name/import', () => {
+  const ndjson = [
+    JSON.stringify({ id: '1', name: 'charge', data: { amount: 5 }, opts: { jobId: '1', attempts: 3 } }),
+    '',
+    JSON.stringify({ id: '2', name: 'refund', data: { amount: 2 } }),
+  ].join('\n');
+
+  it('accepts bodies past the 100 kB limit other routes keep', async () => {
+    const app = makeApp([mockQueue('q')]);
+    const content = JSON.stringify({ name: 'big', data: { blob: 'x'.repeat(2 * 1024 * 1024) } });
+    const res = await request(app).post('/dash/api/queues/q/import').send({ content, dryRun: true });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ total: 1, valid: 1 });
+    const big = await request(app).post('/dash/api/queues/q/drain').send({ pad: 'x'.repeat(200 * 1024) });
+    expect(big.status).toBe(413);
+  });
+
+  it('dry-runs without enqueuing', async () => {
+    const q = mockQueue('q', { add: vi.fn() });
+    const res = await request(makeApp([q])).post('/dash/api/queues/q/import').send({ content: ndjson, dryRun: true });
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ dryRun: true, total: 2, valid: 2, errors: [] });
+    expect(q.add).not.toHaveBeenCalled();
+  });
+
+  it('re-enqueues records, resetting or keeping opts', async () => {
+    const add = vi.fn().mockResolvedValueOnce({ id: 'a' }).mockResolvedValueOnce({ id: 'b' });
+    const app = makeApp([mockQueue('q', { add })]);
+    const res = await request(app).post('/dash/api/queues/q/import').send({ content: ndjson });
+    expect(res.body).toEqual({ status: 'ok', added: 2, ids: ['a', 'b'] });
+    expect(add).toHaveBeenNthCalledWith(1, 'charge', { amount: 5 }, {});
+
+    add.mockClear();
+    await request(app).post('/dash/api/queues/q/import').send({ content: ndjson, opts: 'keep' });
+    // jobId is dropped so the copy doesn't collide with the original.
+    expect(add).toHaveBeenNthCalledWith(1, 'charge', { amount: 5 }, { attempts: 3 });
+  });
+
+  it('imports CSV into another queue', async () => {
+    const add = vi.fn().mockResolvedValue({ id: 'x' });
+    const csv = 'id,name,data\r\n7,charge,"{""amount"":1}"\r\n';
+    const res = await request(makeApp([mockQueue('src'), mockQueue('dst', { add })]))
+      .post('/dash/api/queues/dst/import')
+      .send({ format: 'csv', content: csv });
+    expect(res.status).toBe(200);
+    expect(add).toHaveBeenCalledWith('charge', { amount: 1 }, {});
+  });
+
+  it('rejects the whole file when any record is invalid', async () => {
+    const q = mockQueue('q', { add: vi.fn() });
+    const app = makeApp([q], { jobSchemas: { q: { type: 'object', required: ['amount'] } } });
+    const content = [JSON.stringify({ name: 'ok', data: { amount: 1 } }), '{oops', JSON.stringify({ name: 'x', data: {} })].join('\n');
+    const res = await request(app).post('/dash/api/queues/q/import').send({ content });
+    expect(res.status).toBe(400);
+    expect(res.body.valid).toBe(1);
+    expect(res.body.errors).toEqual([
+      { line: 2, error: 'invalid JSON' },
+      { line: 3, error: '$.amount is required' },
+    ]);
+    expect(q.add).not.toHaveBeenCalled();
+  });
+
+  it('reports the jobs already added when an add fails part-way', async () => {
+    const add = vi.fn().mockResolvedValueOnce({ id: 'a' }).mockRejectedValueOnce(new Error('connection lost'));
+    const res = await request(makeApp([mockQueue('q', { add })])).post('/dash/api/queues/q/import').send({ content: ndjson });
+    expect(res.status).toBe(500);
+    expect(res.body).toEqual({
+      error: 'Import stopped at line 3 after 1 job(s) were added: connection lost',
+      added: 1,
+      ids: ['a'],
+      failedAt: 3,
+    });
+  });
+
+  it('validates kept opts like the add-job route', async () => {
+    const q = mockQueue('q', { add: vi.fn() });
+    const content = JSON.stringify({ name: 'x', data: {}, opts: { attempts: -1 } });
+    const res = await request(makeApp([q])).post('/dash/api/queues/q/import').send({ content, opts: 'keep' });
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([{ line: 1, error: 'opts.attempts must be a non-negative integer' }]);
+    expect(q.add).not.toHaveBeenCalled();
+  });
+
+  it('rejects records exported with redaction on', async () => {
+    const q = mockQueue('q', { add: vi.fn() });
+    const app = makeApp([q], { redact: [{ keys: ['token'], replacement: '***' }] });
+    const content = [
+      JSON.stringify({ name: 'a', data: { email: '[REDACTED]' } }),
+      JSON.stringify({ name: 'b', data: { token: '***' } }),
+      JSON.stringify({ name: 'c', data: { ok: true } }),
+    ].join('\n');
+    const res = await request(app).post('/dash/api/queues/q/import').send({ content, dryRun: true });
+    expect(res.body.valid).toBe(1);
+    expect(res.body.errors.map((e: any) => e.line)).toEqual([1, 2]);
+    expect(res.body.errors[0].error).toMatch(/redaction placeholder/);
+  });
+
+  it('is guarded by queue:import', async () => {
+    const authorize = vi.fn().mockReturnValue(false);
+    const res = await request(makeApp([mockQueue('q')], { authorize })).post('/dash/api/queues/q/import').send({ content: '' });
+    expect(res.status).toBe(403);
+    expect(authorize).toHaveBeenCalledWith(expect.anything(), 'queue:import');
+  });
+});
+
+describe('parseImport', () => {
+  it('reports CSV rows with bad JSON or a missing header', () => {
+    expect(parseImport('csv', 'id,data\n1,{}').errors).toEqual([{ line: 1, error: 'CSV header must include a name column' }]);
+    const { records, errors } = parseImport('csv', 'name,data\na,{bad\nb,\n');
+    expect(errors).toEqual([{ line: 2, error: 'data is not valid JSON' }]);
+    expect(records).toEqual([{ line: 3, record: { name: 'b', data: {}, opts: undefined } }]);
+  });
+});
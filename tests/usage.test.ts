@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+import request from 'supertest';
+import { mockJob, mockQueue, makeApp } from './helpers';
+
+function summary(perQueue: Record<string, { totalTokens: number; totalCost: number; jobCount: number }>) {
+  const values = Object.values(perQueue);
+  return {
+    costUnit: 'usd',
+    totalTokens: values.reduce((n, q) => n + q.totalTokens, 0),
+    totalCost: values.reduce((n, q) => n + q.totalCost, 0),
+    jobCount: values.reduce((n, q) => n + q.jobCount, 0),
+    perQueue,
+  };
+}
+
+describe('GET /api/usage/analytics', () => {
+  it('buckets queue usage from the summary and compares with the previous period', async () => {
+    const getUsageSummary = vi.fn(async ({ startTime }: { startTime: number }) => (startTime < 1000
+      ? summary({ q: { totalTokens: 50, totalCost: 0.5, jobCount: 1 } })
+      : summary({ q: { totalTokens: startTime === 1000 ? 100 : 300, totalCost: 1, jobCount: 2 } })));
+    const app = makeApp([mockQueue('q', { getUsageSummary })]);
+    const res = await request(app).get('/dash/api/usage/analytics?start=1000&end=3000&granularity=1000');
+    expect(res.status).toBe(200);
+    expect(res.body.buckets).toEqual([1000, 2000]);
+    expect(res.body.byQueue.q).toEqual({ tokens: [100, 300], cost: [1, 1], totalTokens: 400, totalCost: 2, jobs: 4 });
+    expect(res.body.totals).toEqual({ tokens: 400, cost: 2, jobs: 4 });
+    expect(res.body.previous).toMatchObject({ start: -1000, end: 1000, tokens: 50 });
+    expect(res.body.change.tokens).toBe(7);
+    expect(res.body.costUnit).toBe('usd');
+    expect(getUsageSummary).toHaveBeenCalledWith({ startTime: 2000, endTime: 3000, queues: ['q'] });
+  });
+
+  it('breaks spend down by model and ranks job names', async () => {
+    const jobs = [
+      mockJob('1', { name: 'summarize', finishedOn: 1500, usage: { model: 'gpt-5.4', totalTokens: 100, totalCost: 0.2 } }),
+      mockJob('2', { name: 'summarize', finishedOn: 2500, usage: { model: 'gpt-5.4', totalTokens: 50, totalCost: 0.1 } }),
+      mockJob('3', { name: 'embed', finishedOn: 2600, usage: { model: 'embed-3', totalTokens: 500, totalCost: 0.01 } }),
+      mockJob('4', { name: 'old', finishedOn: 10, usage: { model: 'gpt-5.4', totalTokens: 9, totalCost: 9 } }),
+      mockJob('5', { name: 'plain', finishedOn: 2000 }),
+    ];
+    const getJobs = vi.fn(async (state: string) => (state === 'completed' ? jobs : []));
+    const app = makeApp([mockQueue('q', { getJobs })]);
+    const res = await request(app).get('/dash/api/usage/analytics?start=1000&end=3000&granularity=1000');
+    expect(res.body.byModel['gpt-5.4']).toMatchObject({ tokens: [100, 50], jobs: 2 });
+    expect(res.body.byModel['gpt-5.4'].totalCost).toBeCloseTo(0.3);
+    expect(res.body.byModel['embed-3'].tokens).toEqual([0, 500]);
+    expect(res.body.topJobNames.map((n: any) => n.name)).toEqual(['summarize', 'embed']);
+    expect(res.body.truncated).toBe(false);
+    expect(getJobs).toHaveBeenCalledWith('failed', 0, 199, { excludeData: true });
+  });
+
+  it('exports CSV rows per bucket', async () => {
+    const app = makeApp([mockQueue('q')]);
+    const res = await request(app).get('/dash/api/usage/analytics?start=0&end=120000&granularity=60000&format=csv');
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toMatch(/text\/csv/);
+    const lines = res.text.trim().split('\r\n');
+    expect(lines[0]).toBe('bucket,dimension,key,tokens,cost');
+    expect(lines[1]).toBe('1970-01-01T00:00:00.000Z,queue,q,100,0.01');
+    expect(lines).toHaveLength(3);
+  });
+
+  it('rejects bad ranges and too many buckets', async () => {
+    const app = makeApp([mockQueue('q')]);
+    expect((await request(app).get('/dash/api/usage/analytics?start=5&end=5')).status).toBe(400);
+    expect((await request(app).get('/dash/api/usage/analytics?start=0&end=1000000&granularity=1')).status).toBe(400);
+    expect((await request(app).get('/dash/api/usage/analytics?start=abc')).status).toBe(400);
+    expect((await request(app).get('/dash/api/usage/analytics?format=xml')).status).toBe(400);
+    expect((await request(app).get('/dash/api/usage/analytics?queues=missing')).status).toBe(404);
+  });
+});
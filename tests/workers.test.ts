@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import { workerHealth } from '../src/workers';
+import { mockQueue, makeApp } from './helpers';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('workerHealth', () => {
+  it('reads host, heartbeat, concurrency and uptime', () => {
+    expect(workerHealth('q', {
+      id: 'w1', hostname: 'box-1', addr: '10.0.0.1:5000', pid: 42, startedAt: 1000,
+      lastHeartbeat: 50000, concurrency: 4, activeJobs: 2,
+    }, 100000, 30000)).toEqual({
+      queue: 'q', id: 'w1', host: 'box-1', addr: '10.0.0.1:5000', pid: 42, startedAt: 1000, uptimeMs: 99000,
+      lastHeartbeat: 50000, heartbeatAgeMs: 50000, stale: true, concurrency: 4, activeJobs: 2, utilization: 0.5,
+    });
+  });
+
+  it('falls back to the address and never flags workers without a heartbeat', () => {
+    const w = workerHealth('q', { id: 'w1', addr: '127.0.0.1', age: 5000, activeJobs: 1 }, 100000, 0);
+    expect(w).toMatchObject({ host: '127.0.0.1', uptimeMs: 5000, heartbeatAgeMs: null, stale: false, concurrency: null, utilization: null });
+  });
+});
+
+describe('GET /api/workers', () => {
+  function setup() {
+    vi.useFakeTimers({ now: 100000, toFake: ['Date'] });
+    const busy = mockQueue('busy', {
+      getWorkers: vi.fn().mockResolvedValue([
+        { id: 'a', concurrency: 2, activeJobs: 2, lastHeartbeat: 99000 },
+        { id: 'b', concurrency: 5, activeJobs: 5, lastHeartbeat: 1000 },
+      ]),
+      getJobCounts: vi.fn().mockResolvedValue({ waiting: 40, active: 2 }),
+    });
+    const idle = mockQueue('idle', {
+      getWorkers: vi.fn().mockResolvedValue([{ id: 'c', concurrency: 10, activeJobs: 1, lastHeartbeat: 99500 }]),
+      getJobCounts: vi.fn().mockResolvedValue({ waiting: 0, active: 1 }),
+    });
+    const empty = mockQueue('empty', { getJobCounts: vi.fn().mockResolvedValue({ waiting: 7, active: 0 }) });
+    return [busy, idle, empty];
+  }
+
+  it('tells queues without workers apart from saturated ones', async () => {
+    const res = await request(makeApp(setup())).get('/dash/api/workers');
+    expect(res.status).toBe(200);
+    expect(res.body.staleAfterMs).toBe(30000);
+    expect(res.body.queues).toEqual([
+      { queue: 'busy', workers: 1, staleWorkers: 1, capacity: 2, active: 2, waiting: 40, utilization: 1, status: 'saturated' },
+      { queue: 'idle', workers: 1, staleWorkers: 0, capacity: 10, active: 1, waiting: 0, utilization: 0.1, status: 'ok' },
+      { queue: 'empty', workers: 0, staleWorkers: 0, capacity: null, active: 0, waiting: 7, utilization: null, status: 'no-workers' },
+    ]);
+    expect(res.body.workers.map((w: any) => [w.queue, w.id, w.stale])).toEqual([
+      ['busy', 'a', false], ['busy', 'b', true], ['idle', 'c', false],
+    ]);
+  });
+
+  it('takes the stale threshold from the query', async () => {
+    const app = makeApp(setup());
+    const res = await request(app).get('/dash/api/workers?staleAfterMs=200000');
+    expect(res.body.queues[0]).toMatchObject({ workers: 2, staleWorkers: 0, capacity: 7 });
+    expect((await request(app).get('/dash/api/workers?staleAfterMs=soon')).status).toBe(400);
+  });
+
+  it('lists only queues the caller can read', async () => {
+    const app = makeApp(setup(), {
+      rbac: { roles: { viewer: { actions: ['queue:read'], queues: ['idle'] } }, resolveRole: () => 'viewer' },
+    });
+    const res = await request(app).get('/dash/api/workers');
+    expect(res.body.queues.map((q: any) => q.queue)).toEqual(['idle']);
+  });
+});